@@ -6,22 +6,76 @@ import fastify, {
 import formbody from "@fastify/formbody";
 import { registerRoutes } from "./routes/index.js";
 import type { OpenAIService } from "./services/ai/openai.js";
+import type { LeadExtractionService } from "./services/leads/leadExtraction.js";
 import type { TwilioService } from "./services/messaging/twilio.js";
-import type { MessagesHandlerDependencies } from "./handlers/messages.js";
+import type { TwilioSignatureService } from "./services/messaging/twilioSignature.js";
+import {
+  createInboundMessageProcessor,
+  type InboundMessage,
+  type InboundMessageProcessorDependencies,
+} from "./services/messaging/inboundMessages.js";
+import { createMessageQueue } from "./services/messaging/messageQueue.js";
+import { createMessageDebouncer } from "./services/messaging/messageDebouncer.js";
+import { createHandoffService } from "./services/messaging/handoff.js";
+import {
+  createChannelRegistry,
+  parseConversationId,
+  type Channel,
+} from "./services/messaging/channel.js";
+import { createWhatsAppChannel } from "./services/messaging/twilioChannels.js";
+import type { InboundMediaService } from "./services/messaging/inboundMedia.js";
+import {
+  createSessionWindowTracker,
+  type SessionWindowTracker,
+} from "./services/messaging/sessionWindow.js";
+import {
+  createDeliveryStatusStore,
+  type DeliveryStatusStore,
+} from "./services/messaging/deliveryStatus.js";
+import {
+  createMessageDeduplicationStore,
+  type MessageDeduplicationStore,
+} from "./services/messaging/messageDeduplication.js";
 import { logger } from "./logger.js";
 
 export interface AppDependencies {
   openAIService: OpenAIService;
   twilioService: TwilioService;
-  messages?: Partial<MessagesHandlerDependencies>;
+  twilioSignatureService?: TwilioSignatureService;
+  channels?: Channel[];
+  messages?: Partial<InboundMessageProcessorDependencies>;
+  workerConcurrency?: number;
+  messageDeduplicationStore?: MessageDeduplicationStore;
+  deliveryStatusStore?: DeliveryStatusStore;
+  sessionWindowTracker?: SessionWindowTracker;
+  messageDebounceMs?: number;
+  adminApiToken?: string;
+  humanHandoffTimeoutMs?: number;
+  leadExtractionService?: LeadExtractionService;
+  inboundMediaService?: InboundMediaService;
 }
 
+const DEFAULT_WORKER_CONCURRENCY = 2;
+const DEFAULT_DEDUPLICATION_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_HUMAN_HANDOFF_TIMEOUT_MS = 60 * 60 * 1000;
+
 export type AppInstance = FastifyInstance<RawServerDefault>;
 
 export async function buildApp({
   openAIService,
   twilioService,
+  twilioSignatureService,
+  channels,
   messages,
+  workerConcurrency,
+  messageDeduplicationStore,
+  deliveryStatusStore,
+  sessionWindowTracker,
+  messageDebounceMs,
+  adminApiToken,
+  humanHandoffTimeoutMs,
+  leadExtractionService,
+  inboundMediaService,
 }: AppDependencies): Promise<AppInstance> {
   const loggerInstance =
     process.env.NODE_ENV === "test"
@@ -36,22 +90,128 @@ export async function buildApp({
 
   await app.register(formbody);
 
-  const messagesDependencies: MessagesHandlerDependencies = {
+  const channelRegistry = createChannelRegistry(
+    channels ?? [createWhatsAppChannel({ twilioService })]
+  );
+
+  const sendMessage: InboundMessageProcessorDependencies["sendMessage"] =
+    messages?.sendMessage ?? channelRegistry.send;
+
+  const recordMessage: NonNullable<
+    InboundMessageProcessorDependencies["recordMessage"]
+  > =
+    messages?.recordMessage ??
+    ((conversationId, message) =>
+      openAIService.recordMessage(conversationId, message));
+
+  const handoffService = createHandoffService({
+    humanTimeoutMs: humanHandoffTimeoutMs ?? DEFAULT_HUMAN_HANDOFF_TIMEOUT_MS,
+    sendMessage: channelRegistry.send,
+    recordMessage,
+  });
+
+  const processorDependencies: InboundMessageProcessorDependencies = {
     generateSimpleResponse:
       messages?.generateSimpleResponse ??
-      ((conversationId, message) =>
-        openAIService.generateReply(conversationId, message)),
-    sendWhatsAppMessage:
-      messages?.sendWhatsAppMessage ??
-      ((to, body) => twilioService.sendWhatsAppMessage(to, body)),
+      ((...args) => openAIService.generateReply(...args)),
+    sendMessage,
     getConversationHistory:
       messages?.getConversationHistory ??
       ((conversationId) =>
         openAIService.getConversationHistory(conversationId)),
+    isBotActive: messages?.isBotActive ?? handoffService.isBotActive,
+    recordMessage,
+    ...(leadExtractionService && {
+      extractLead: leadExtractionService.extractLead,
+      getLead: leadExtractionService.getLead,
+    }),
+    ...(messages?.extractLead && { extractLead: messages.extractLead }),
+    ...(messages?.getLead && { getLead: messages.getLead }),
+    ...(inboundMediaService && {
+      prepareContent: inboundMediaService.prepare,
+    }),
+    ...(messages?.saveConversationCsv && {
+      saveConversationCsv: messages.saveConversationCsv,
+    }),
   };
 
+  const { processInboundMessage } = createInboundMessageProcessor(
+    processorDependencies
+  );
+
+  const deduplicationStore =
+    messageDeduplicationStore ??
+    createMessageDeduplicationStore({ ttlMs: DEFAULT_DEDUPLICATION_TTL_MS });
+
+  const deliveryStatuses = deliveryStatusStore ?? createDeliveryStatusStore();
+  const sessionWindows = sessionWindowTracker ?? createSessionWindowTracker();
+
+  const inboundQueue = createMessageQueue<InboundMessage>({
+    name: "inbound-messages",
+    concurrency: workerConcurrency ?? DEFAULT_WORKER_CONCURRENCY,
+    keyOf: (message) => message.from,
+    process: async (message) => {
+      const messageSids = message.mergedMessageSids ?? [message.messageSid];
+      try {
+        const result = await processInboundMessage(message);
+        messageSids.forEach((messageSid) =>
+          deduplicationStore.complete(messageSid, result.replyMessageSid)
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        messageSids.forEach((messageSid) =>
+          deduplicationStore.fail(messageSid, errorMessage)
+        );
+        throw error;
+      }
+    },
+  });
+
+  const inboundDebouncer = createMessageDebouncer({
+    windowMs: messageDebounceMs ?? 0,
+    onFlush: inboundQueue.enqueue,
+  });
+
+  app.addHook("onClose", async () => {
+    inboundDebouncer.flushAll();
+    await inboundQueue.onIdle();
+  });
+
   await app.register(async (instance) => {
-    await registerRoutes(instance, { messages: messagesDependencies });
+    await registerRoutes(instance, {
+      messages: {
+        channels: channelRegistry.list(),
+        enqueueInboundMessage: (message) => {
+          if (parseConversationId(message.from)?.channel === "whatsapp") {
+            sessionWindows.recordInbound(message.from, message.receivedAt);
+          }
+          inboundDebouncer.push(message);
+        },
+        claimInboundMessage: deduplicationStore.claim,
+        recordDeliveryStatus: deliveryStatuses.recordStatus,
+        ...(twilioSignatureService && { twilioSignatureService }),
+      },
+      ...(adminApiToken && {
+        admin: {
+          adminApiToken,
+          listConversations: () => openAIService.listConversations(),
+          getConversationHistory: (conversationId) =>
+            openAIService.findConversationHistory(conversationId),
+          resetConversation: (conversationId) =>
+            openAIService.resetConversation(conversationId),
+          getConversationMode: handoffService.getMode,
+          getSessionWindow: sessionWindows.getWindow,
+          setConversationMode: handoffService.setMode,
+          sendStaffReply: handoffService.sendStaffReply,
+          getLead: (conversationId) =>
+            leadExtractionService?.getLead(conversationId) ?? null,
+          listLeads: () => leadExtractionService?.listLeads() ?? [],
+          getDeliveryStatus: deliveryStatuses.get,
+          listDeliveries: deliveryStatuses.listForConversation,
+        },
+      }),
+    });
   });
 
   return app;
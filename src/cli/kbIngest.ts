@@ -0,0 +1,109 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  chromaClientOptionsFromEnvironment,
+  createChromaClient,
+} from "../clients/chromadb.js";
+import { env } from "../env.js";
+import { logger } from "../logger.js";
+import { isSupportedKnowledgeFile } from "../services/ai/knowledgeChunker.js";
+import {
+  createKnowledgeIngestionService,
+  type KnowledgeSourceFile,
+} from "../services/ai/knowledgeIngestion.js";
+import { createLocalVectorStore } from "../services/ai/localVectorStore.js";
+
+const cliLogger = logger.child({ module: "kb-ingest-cli" });
+
+async function collectFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map(async (entry) => {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return collectFiles(fullPath);
+      }
+      return entry.isFile() && isSupportedKnowledgeFile(entry.name)
+        ? [fullPath]
+        : [];
+    })
+  );
+  return nested.flat().sort();
+}
+
+const toSourcePath = (from: string, to: string) =>
+  path.relative(from, to).split(path.sep).join("/");
+
+async function loadSourceFiles(
+  directory: string,
+  baseDirectory: string
+): Promise<KnowledgeSourceFile[]> {
+  const filePaths = await collectFiles(directory);
+  return Promise.all(
+    filePaths.map(async (filePath) => ({
+      path: toSourcePath(baseDirectory, filePath),
+      content: await readFile(filePath, "utf8"),
+    }))
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const directory = path.resolve(
+    args.find((arg) => !arg.startsWith("--")) ?? env.KB_SOURCE_DIR
+  );
+
+  // Subdirectories of KB_SOURCE_DIR keep the paths a full run would give
+  // their files, so ingesting one leaves the chunks of the others alone.
+  const sourceDirectory = path.resolve(env.KB_SOURCE_DIR);
+  const root = toSourcePath(sourceDirectory, directory);
+  const insideSource = !root.startsWith("..") && !path.isAbsolute(root);
+  const files = await loadSourceFiles(
+    directory,
+    insideSource ? sourceDirectory : directory
+  );
+  cliLogger.info(
+    { directory, root: insideSource ? root : "", files: files.length, dryRun },
+    "kb.ingest.start"
+  );
+
+  if (files.length === 0) {
+    throw new Error(
+      `No Markdown, JSON or CSV files found in ${directory}; refusing to delete every chunk ingested from it`
+    );
+  }
+
+  const ingestionService = createKnowledgeIngestionService({
+    ...(env.VECTOR_STORE === "local"
+      ? {
+          vectorStore: createLocalVectorStore({
+            filePath: env.LOCAL_VECTOR_STORE_PATH,
+            ...(env.CHROMA_COLLECTION && {
+              collectionName: env.CHROMA_COLLECTION,
+            }),
+          }),
+        }
+      : {
+          chromaClient: createChromaClient(
+            chromaClientOptionsFromEnvironment(env)
+          ),
+          chromaCollection: env.CHROMA_COLLECTION,
+        }),
+    embeddingModel: env.OPENAI_EMBEDDING_MODEL,
+    openAIApiKey: env.OPENAI_API_KEY,
+  });
+
+  await ingestionService.ingest(files, {
+    dryRun,
+    ...(insideSource && root && { root }),
+  });
+}
+
+main().catch((error) => {
+  cliLogger.error(
+    { error: error instanceof Error ? error.message : error },
+    "kb.ingest.failed"
+  );
+  process.exit(1);
+});
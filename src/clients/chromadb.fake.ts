@@ -29,6 +29,20 @@ export function createFakeChromaClient(
         distances: [distances],
       };
     },
+    get: async ({ where }: { where?: Record<string, unknown> } = {}) => {
+      const indexes = documents
+        .map((_, index) => index)
+        .filter((index) =>
+          Object.entries(where ?? {}).every(
+            ([key, value]) => metadatas[index]?.[key] === value
+          )
+        );
+      return {
+        ids: indexes.map((index) => `fake-${index}`),
+        documents: indexes.map((index) => documents[index] ?? null),
+        metadatas: indexes.map((index) => metadatas[index] ?? null),
+      };
+    },
   };
 
   return {
@@ -1,13 +1,98 @@
-import { CloudClient, type ChromaClient } from "chromadb";
+import { ChromaClient, CloudClient } from "chromadb";
+import type { Environment } from "../env.js";
 
-export interface CreateChromaClientOptions {
+export type ChromaAuthHeader = Environment["CHROMA_AUTH_HEADER"];
+
+export interface ChromaCloudClientOptions {
+  mode: "cloud";
   apiKey: string;
   tenant: string;
   database: string;
 }
 
+export interface ChromaServerClientOptions {
+  mode: "server";
+  url: string;
+  authToken?: string;
+  authHeader?: ChromaAuthHeader;
+  tenant?: string;
+  database?: string;
+}
+
+export type CreateChromaClientOptions =
+  | ChromaCloudClientOptions
+  | ChromaServerClientOptions;
+
 export function createChromaClient(
   options: CreateChromaClientOptions
 ): ChromaClient {
-  return new CloudClient(options);
+  if (options.mode === "cloud") {
+    const { apiKey, tenant, database } = options;
+    return new CloudClient({ apiKey, tenant, database });
+  }
+
+  const url = new URL(options.url);
+  // The client builds every request URL from host and port alone.
+  if (url.pathname !== "/") {
+    throw new Error(
+      `Chroma server URL must not include a path (got ${url.pathname})`
+    );
+  }
+  const ssl = url.protocol === "https:";
+  const authHeader = options.authHeader ?? "Authorization";
+
+  return new ChromaClient({
+    host: url.hostname,
+    port: url.port ? Number(url.port) : ssl ? 443 : 80,
+    ssl,
+    ...(options.tenant && { tenant: options.tenant }),
+    ...(options.database && { database: options.database }),
+    ...(options.authToken && {
+      headers: {
+        [authHeader]:
+          authHeader === "Authorization"
+            ? `Bearer ${options.authToken}`
+            : options.authToken,
+      },
+    }),
+  });
+}
+
+export function chromaClientOptionsFromEnvironment(
+  environment: Pick<
+    Environment,
+    | "CHROMA_MODE"
+    | "CHROMA_URL"
+    | "CHROMA_AUTH_TOKEN"
+    | "CHROMA_AUTH_HEADER"
+    | "CHROMA_API_KEY"
+    | "CHROMA_TENANT"
+    | "CHROMA_DATABASE"
+  >
+): CreateChromaClientOptions {
+  if (environment.CHROMA_MODE === "cloud") {
+    return {
+      mode: "cloud",
+      apiKey: environment.CHROMA_API_KEY,
+      tenant: environment.CHROMA_TENANT,
+      database: environment.CHROMA_DATABASE,
+    };
+  }
+
+  if (!environment.CHROMA_URL) {
+    throw new Error("CHROMA_URL is required when CHROMA_MODE is server");
+  }
+
+  return {
+    mode: "server",
+    url: environment.CHROMA_URL,
+    authHeader: environment.CHROMA_AUTH_HEADER,
+    ...(environment.CHROMA_AUTH_TOKEN && {
+      authToken: environment.CHROMA_AUTH_TOKEN,
+    }),
+    ...(environment.CHROMA_TENANT && { tenant: environment.CHROMA_TENANT }),
+    ...(environment.CHROMA_DATABASE && {
+      database: environment.CHROMA_DATABASE,
+    }),
+  };
 }
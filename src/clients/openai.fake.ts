@@ -5,35 +5,123 @@ type FakeMessage = {
   content?: unknown;
 };
 
-export function createFakeOpenAIClient(): OpenAI {
+export interface FakeToolCallStep {
+  toolCalls: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface FakeContentStep {
+  content: string;
+  finishReason?: "stop" | "length";
+}
+
+export type FakeCompletionStep = FakeToolCallStep | FakeContentStep;
+
+export interface FakeOpenAIClientOptions {
+  steps?: FakeCompletionStep[];
+  onRequest?: (params: {
+    messages: FakeMessage[];
+    tools?: unknown[];
+    tool_choice?: unknown;
+    response_format?: FakeResponseFormat;
+    max_tokens?: number;
+  }) => void;
+}
+
+type FakeResponseFormat = {
+  type?: string;
+  json_schema?: { schema?: { properties?: Record<string, unknown> } };
+};
+
+function emptyStructuredOutput(format: FakeResponseFormat): string {
+  const properties = format.json_schema?.schema?.properties ?? {};
+  return JSON.stringify(
+    Object.fromEntries(Object.keys(properties).map((key) => [key, null]))
+  );
+}
+
+export function createFakeOpenAIClient(
+  options: FakeOpenAIClientOptions = {}
+): OpenAI {
+  const steps = [...(options.steps ?? [])];
+  let toolCallSequence = 0;
+
   return {
     chat: {
       completions: {
-        create: async ({ messages }: { messages: FakeMessage[] }) => {
+        create: async (params: {
+          messages: FakeMessage[];
+          tools?: unknown[];
+          tool_choice?: unknown;
+          response_format?: FakeResponseFormat;
+          max_tokens?: number;
+        }) => {
+          options.onRequest?.(params);
+          const { messages } = params;
           const lastMessage = messages[messages.length - 1];
           const lastContent =
             typeof lastMessage?.content === "string"
               ? lastMessage.content
               : JSON.stringify(lastMessage?.content ?? "");
 
+          const usage = {
+            prompt_tokens: lastContent.length,
+            completion_tokens: lastContent.length,
+            total_tokens: lastContent.length * 2,
+          };
+
+          const step = steps.shift();
+
+          if (step && "toolCalls" in step) {
+            return {
+              choices: [
+                {
+                  message: {
+                    role: "assistant",
+                    content: null,
+                    tool_calls: step.toolCalls.map((toolCall) => {
+                      toolCallSequence += 1;
+                      return {
+                        id: `call_fake_${toolCallSequence}`,
+                        type: "function",
+                        function: {
+                          name: toolCall.name,
+                          arguments: JSON.stringify(toolCall.arguments),
+                        },
+                      };
+                    }),
+                  },
+                },
+              ],
+              usage,
+            } as unknown;
+          }
+
           return {
             choices: [
               {
                 message: {
                   role: "assistant",
-                  content: `[fake-openai] ${lastContent}`,
+                  content: step
+                    ? step.content
+                    : params.response_format?.type === "json_schema"
+                      ? emptyStructuredOutput(params.response_format)
+                      : `[fake-openai] ${lastContent}`,
                 },
+                finish_reason: step?.finishReason ?? "stop",
               },
             ],
-            usage: {
-              prompt_tokens: lastContent.length,
-              completion_tokens: lastContent.length,
-              total_tokens: lastContent.length * 2,
-            },
+            usage,
           } as unknown;
         },
       },
     },
+    audio: {
+      transcriptions: {
+        create: async ({ file }: { file: { size?: number } }) => ({
+          text: `[fake-transcription] ${file.size ?? 0} bytes`,
+        }),
+      },
+    },
     embeddings: {
       create: async ({
         input,
@@ -1,14 +1,40 @@
 import type { Twilio } from "twilio";
 
-export function createFakeTwilioClient(): Twilio {
+export interface FakeTwilioMessage {
+  sid: string;
+  to: string;
+  body?: string;
+  mediaUrl?: string[];
+  contentSid?: string;
+  contentVariables?: string;
+}
+
+export type FakeTwilioClient = Twilio & { sentMessages: FakeTwilioMessage[] };
+
+export function createFakeTwilioClient(): FakeTwilioClient {
+  const sentMessages: FakeTwilioMessage[] = [];
+
   return {
+    sentMessages,
     messages: {
-      create: async ({ to, body }: { to: string; body: string }) => ({
-        sid: `SMFAKE-${Date.now()}`,
+      create: async ({
         to,
         body,
-        status: "sent",
-      }),
+        mediaUrl,
+        contentSid,
+        contentVariables,
+      }: Omit<FakeTwilioMessage, "sid">) => {
+        const message: FakeTwilioMessage = {
+          sid: `SMFAKE-${Date.now()}-${sentMessages.length + 1}`,
+          to,
+          ...(body !== undefined && { body }),
+          ...(mediaUrl && { mediaUrl }),
+          ...(contentSid && { contentSid }),
+          ...(contentVariables && { contentVariables }),
+        };
+        sentMessages.push(message);
+        return { ...message, status: "sent" };
+      },
     },
-  } as unknown as Twilio;
+  } as unknown as FakeTwilioClient;
 }
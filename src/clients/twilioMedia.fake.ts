@@ -0,0 +1,13 @@
+import type { TwilioMediaClient } from "./twilioMedia.js";
+
+const ONE_PIXEL_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+export function createFakeTwilioMediaClient(): TwilioMediaClient {
+  return {
+    download: async () => ({
+      contentType: "image/png",
+      data: Buffer.from(ONE_PIXEL_PNG, "base64"),
+    }),
+  };
+}
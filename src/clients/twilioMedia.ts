@@ -0,0 +1,52 @@
+export interface DownloadedMedia {
+  contentType: string;
+  data: Buffer;
+}
+
+export interface TwilioMediaClient {
+  download: (url: string) => Promise<DownloadedMedia>;
+}
+
+export interface CreateTwilioMediaClientOptions {
+  accountSid: string;
+  authToken: string;
+  maxBytes: number;
+  fetch?: typeof fetch;
+}
+
+export function createTwilioMediaClient(
+  options: CreateTwilioMediaClientOptions
+): TwilioMediaClient {
+  const { accountSid, authToken, maxBytes } = options;
+  const fetchImpl = options.fetch ?? fetch;
+  const authorization = `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`;
+
+  const download = async (url: string): Promise<DownloadedMedia> => {
+    const response = await fetchImpl(url, {
+      headers: { Authorization: authorization },
+      redirect: "follow",
+    });
+
+    if (!response.ok) {
+      throw new Error(`Media download failed with status ${response.status}`);
+    }
+
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+      throw new Error(`Media is larger than ${maxBytes} bytes`);
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > maxBytes) {
+      throw new Error(`Media is larger than ${maxBytes} bytes`);
+    }
+
+    return {
+      contentType:
+        response.headers.get("content-type") ?? "application/octet-stream",
+      data,
+    };
+  };
+
+  return { download };
+}
@@ -6,6 +6,18 @@ dotenv.config();
 
 const isTest = process.env.NODE_ENV === "test";
 
+const tokenBudgetShare = (name: string, defaultValue: string) =>
+  z
+    .string()
+    .default(defaultValue)
+    .transform((value) => {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+        throw new Error(`${name} must be a number between 0 and 1`);
+      }
+      return parsed;
+    });
+
 const envSchema = z
   .object({
     NODE_ENV: z
@@ -20,6 +32,10 @@ const envSchema = z
       .string()
       .min(1, "Auth token is required")
       .default(isTest ? "test_auth_token" : ""),
+    TWILIO_VALIDATE_SIGNATURE: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((value) => value === "true"),
     TWILIO_PHONE_NUMBER: isTest
       ? z
           .string()
@@ -36,6 +52,35 @@ const envSchema = z
         "Messaging Service SID must start with MG or US"
       )
       .optional(),
+    TWILIO_SMS_NUMBER: z
+      .string()
+      .regex(/^\+[1-9]\d{6,14}$/, "SMS number must be in E.164 format")
+      .optional(),
+    WEB_CHANNEL_WEBHOOK_URL: z.string().url().optional(),
+    WEB_CHANNEL_TOKEN: z
+      .string()
+      .min(16, "Web channel token must be at least 16 characters")
+      .optional(),
+    TWILIO_FOLLOWUP_CONTENT_SID: z
+      .string()
+      .startsWith("HX", "Content SID must start with HX")
+      .optional(),
+    PUBLIC_BASE_URL: z.string().url().optional(),
+    MEDIA_IMAGE_INPUT: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((value) => value === "true"),
+    AUDIO_TRANSCRIPTION: z.enum(["none", "openai"]).default("openai"),
+    MEDIA_MAX_BYTES: z
+      .string()
+      .default("5242880")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed <= 0) {
+          throw new Error("MEDIA_MAX_BYTES must be a positive integer");
+        }
+        return parsed;
+      }),
     OPENAI_API_KEY: z
       .string()
       .min(1, "OpenAI API key is required")
@@ -48,9 +93,13 @@ const envSchema = z
       .string()
       .min(1, "OpenAI embedding model is required")
       .default("text-embedding-3-small"),
+    OPENAI_TRANSCRIPTION_MODEL: z
+      .string()
+      .min(1, "OpenAI transcription model is required")
+      .default("whisper-1"),
     OPENAI_MAX_CONTEXT_TOKENS: z
       .string()
-      .default("700")
+      .default("4000")
       .transform((value) => {
         const parsed = Number(value);
         if (!Number.isFinite(parsed) || parsed <= 0) {
@@ -60,22 +109,171 @@ const envSchema = z
         }
         return parsed;
       }),
-    CHROMA_API_KEY: z
+    CONTEXT_COMPACTION: z.enum(["drop", "summarize"]).default("drop"),
+    OPENAI_MAX_OUTPUT_TOKENS: z
+      .string()
+      .optional()
+      .transform((value) => {
+        if (value === undefined) {
+          return undefined;
+        }
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed <= 0) {
+          throw new Error(
+            "OPENAI_MAX_OUTPUT_TOKENS must be a positive integer"
+          );
+        }
+        return parsed;
+      }),
+    TOKEN_BUDGET_SYSTEM_SHARE: tokenBudgetShare(
+      "TOKEN_BUDGET_SYSTEM_SHARE",
+      "0.3"
+    ),
+    TOKEN_BUDGET_KNOWLEDGE_SHARE: tokenBudgetShare(
+      "TOKEN_BUDGET_KNOWLEDGE_SHARE",
+      "0.25"
+    ),
+    TOKEN_BUDGET_HISTORY_SHARE: tokenBudgetShare(
+      "TOKEN_BUDGET_HISTORY_SHARE",
+      "0.25"
+    ),
+    TOKEN_BUDGET_OUTPUT_SHARE: tokenBudgetShare(
+      "TOKEN_BUDGET_OUTPUT_SHARE",
+      "0.2"
+    ),
+    TOKEN_BUDGET_MIN_HISTORY_TOKENS: z
+      .string()
+      .default("150")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+          throw new Error(
+            "TOKEN_BUDGET_MIN_HISTORY_TOKENS must be a non-negative integer"
+          );
+        }
+        return parsed;
+      }),
+    MESSAGE_WORKER_CONCURRENCY: z
+      .string()
+      .default("2")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed <= 0) {
+          throw new Error(
+            "MESSAGE_WORKER_CONCURRENCY must be a positive integer"
+          );
+        }
+        return parsed;
+      }),
+    MESSAGE_DEBOUNCE_MS: z
+      .string()
+      .default("0")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0) {
+          throw new Error("MESSAGE_DEBOUNCE_MS must be zero or positive");
+        }
+        return parsed;
+      }),
+    WHATSAPP_SEGMENT_DELAY_MS: z
+      .string()
+      .default("0")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed < 0) {
+          throw new Error("WHATSAPP_SEGMENT_DELAY_MS must be zero or positive");
+        }
+        return parsed;
+      }),
+    MESSAGE_DEDUPE_TTL_SECONDS: z
+      .string()
+      .default("3600")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+          throw new Error(
+            "MESSAGE_DEDUPE_TTL_SECONDS must be a positive number"
+          );
+        }
+        return parsed;
+      }),
+    CONVERSATION_STORE: z.enum(["memory", "file"]).default("memory"),
+    CONVERSATION_STORE_PATH: z
       .string()
-      .min(1, "Chroma API key is required")
-      .default(isTest ? "test_chroma_api_key" : ""),
-    CHROMA_TENANT: z
+      .min(1, "Conversation store path is required")
+      .default("data/conversations"),
+    ADMIN_API_TOKEN: z
       .string()
-      .min(1, "Chroma tenant is required")
-      .default(isTest ? "test_chroma_tenant" : ""),
-    CHROMA_DATABASE: z
+      .min(16, "Admin API token must be at least 16 characters")
+      .optional(),
+    HUMAN_HANDOFF_TIMEOUT_MINUTES: z
       .string()
-      .min(1, "Chroma database is required")
-      .default(isTest ? "test_chroma_database" : ""),
+      .default("60")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+          throw new Error(
+            "HUMAN_HANDOFF_TIMEOUT_MINUTES must be a positive number"
+          );
+        }
+        return parsed;
+      }),
+    LEAD_EXTRACTION_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((value) => value === "true"),
+    STAFF_NOTIFY_WHATSAPP_NUMBER: z
+      .string()
+      .startsWith("whatsapp:", "Phone number must be in WhatsApp format")
+      .optional(),
+    STAFF_NOTIFY_WEBHOOK_URL: z.string().url().optional(),
+    KB_SOURCE_DIR: z.string().min(1).default("knowledge-base"),
+    VECTOR_STORE: z.enum(["chroma", "local"]).default("chroma"),
+    LOCAL_VECTOR_STORE_PATH: z
+      .string()
+      .min(1, "Local vector store path is required")
+      .default("data/vector-store.json"),
+    CHROMA_MODE: z.enum(["cloud", "server"]).default("cloud"),
+    CHROMA_URL: z.string().url("CHROMA_URL must be a valid URL").optional(),
+    CHROMA_AUTH_TOKEN: z.string().min(1).optional(),
+    CHROMA_AUTH_HEADER: z
+      .enum(["Authorization", "X-Chroma-Token"])
+      .default("Authorization"),
+    CHROMA_API_KEY: z.string().default(isTest ? "test_chroma_api_key" : ""),
+    CHROMA_TENANT: z.string().default(isTest ? "test_chroma_tenant" : ""),
+    CHROMA_DATABASE: z.string().default(isTest ? "test_chroma_database" : ""),
     CHROMA_COLLECTION: z
       .string()
-      .min(1, "Chroma collection is required")
       .default(isTest ? "test_chroma_collection" : ""),
+    CHROMA_MAX_DISTANCE: z
+      .string()
+      .optional()
+      .transform((value) => {
+        if (value === undefined || value === "") {
+          return undefined;
+        }
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || parsed <= 0) {
+          throw new Error("CHROMA_MAX_DISTANCE must be a positive number");
+        }
+        return parsed;
+      }),
+    CHROMA_RERANKER: z.enum(["none", "bm25"]).default("none"),
+    EMBEDDING_CACHE_MAX_ENTRIES: z
+      .string()
+      .default("1000")
+      .transform((value) => {
+        const parsed = Number(value);
+        if (!Number.isInteger(parsed) || parsed < 0) {
+          throw new Error(
+            "EMBEDDING_CACHE_MAX_ENTRIES must be zero or a positive integer"
+          );
+        }
+        return parsed;
+      }),
+    EMBEDDING_CACHE_PATH: z.string().min(1).optional(),
+    KB_LANGUAGE: z.string().min(2).optional(),
+    KB_QUERY_REWRITE: z.enum(["none", "window", "llm"]).default("window"),
     GOOGLE_SERVICE_ACCOUNT_EMAIL: z.string().email().optional(),
     GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY: z.string().optional(),
     GOOGLE_DRIVE_FOLDER_ID: z.string().optional(),
@@ -89,7 +287,85 @@ const envSchema = z
       message:
         "Either TWILIO_PHONE_NUMBER or TWILIO_MESSAGING_SERVICE_SID must be provided",
     }
-  );
+  )
+  .superRefine((data, context) => {
+    if (data.VECTOR_STORE !== "chroma") {
+      return;
+    }
+    const required =
+      data.CHROMA_MODE === "server"
+        ? ([["CHROMA_URL", "CHROMA_URL is required in server mode"]] as const)
+        : ([
+            ["CHROMA_API_KEY", "Chroma API key is required"],
+            ["CHROMA_TENANT", "Chroma tenant is required"],
+            ["CHROMA_DATABASE", "Chroma database is required"],
+          ] as const);
+    if (
+      data.CHROMA_MODE === "server" &&
+      data.CHROMA_URL &&
+      new URL(data.CHROMA_URL).pathname !== "/"
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["CHROMA_URL"],
+        message:
+          "CHROMA_URL must not include a path; the Chroma client only uses its host and port",
+      });
+    }
+    if (!data.CHROMA_COLLECTION) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["CHROMA_COLLECTION"],
+        message: "Chroma collection is required",
+      });
+    }
+    required.forEach(([key, message]) => {
+      if (!data[key]) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message,
+        });
+      }
+    });
+  })
+  .superRefine((data, context) => {
+    if (
+      Boolean(data.WEB_CHANNEL_WEBHOOK_URL) !== Boolean(data.WEB_CHANNEL_TOKEN)
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [
+          data.WEB_CHANNEL_TOKEN
+            ? "WEB_CHANNEL_WEBHOOK_URL"
+            : "WEB_CHANNEL_TOKEN",
+        ],
+        message:
+          "WEB_CHANNEL_WEBHOOK_URL and WEB_CHANNEL_TOKEN must be set together",
+      });
+    }
+  })
+  .superRefine((data, context) => {
+    if (data.TOKEN_BUDGET_OUTPUT_SHARE <= 0) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["TOKEN_BUDGET_OUTPUT_SHARE"],
+        message: "TOKEN_BUDGET_OUTPUT_SHARE must be greater than 0",
+      });
+    }
+    const total =
+      data.TOKEN_BUDGET_SYSTEM_SHARE +
+      data.TOKEN_BUDGET_KNOWLEDGE_SHARE +
+      data.TOKEN_BUDGET_HISTORY_SHARE +
+      data.TOKEN_BUDGET_OUTPUT_SHARE;
+    if (total > 1 + Number.EPSILON * 4) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["TOKEN_BUDGET_OUTPUT_SHARE"],
+        message: `TOKEN_BUDGET_*_SHARE values must add up to at most 1 (got ${total})`,
+      });
+    }
+  });
 
 export type Environment = z.infer<typeof envSchema>;
 
@@ -107,6 +383,13 @@ function logEnvironmentDebug(): void {
     { isSet: Boolean(process.env.TWILIO_AUTH_TOKEN) },
     "env.TWILIO_AUTH_TOKEN"
   );
+  envLogger.debug(
+    {
+      validateSignature:
+        process.env.TWILIO_VALIDATE_SIGNATURE ?? "[default true]",
+    },
+    "env.TWILIO_VALIDATE_SIGNATURE"
+  );
   envLogger.debug(
     { phoneNumber: process.env.TWILIO_PHONE_NUMBER },
     "env.TWILIO_PHONE_NUMBER"
@@ -115,13 +398,69 @@ function logEnvironmentDebug(): void {
     { messagingServiceSid: process.env.TWILIO_MESSAGING_SERVICE_SID },
     "env.TWILIO_MESSAGING_SERVICE_SID"
   );
+  envLogger.debug(
+    { smsNumber: process.env.TWILIO_SMS_NUMBER ?? "[not set]" },
+    "env.TWILIO_SMS_NUMBER"
+  );
+  envLogger.debug(
+    {
+      webhookUrl: process.env.WEB_CHANNEL_WEBHOOK_URL ?? "[not set]",
+      tokenSet: Boolean(process.env.WEB_CHANNEL_TOKEN),
+    },
+    "env.WEB_CHANNEL"
+  );
+  envLogger.debug(
+    { contentSid: process.env.TWILIO_FOLLOWUP_CONTENT_SID ?? "[not set]" },
+    "env.TWILIO_FOLLOWUP_CONTENT_SID"
+  );
+  envLogger.debug(
+    { publicBaseUrl: process.env.PUBLIC_BASE_URL ?? "[not set]" },
+    "env.PUBLIC_BASE_URL"
+  );
+  envLogger.debug(
+    {
+      imageInput: process.env.MEDIA_IMAGE_INPUT ?? "[default true]",
+      audioTranscription: process.env.AUDIO_TRANSCRIPTION ?? "[default openai]",
+      transcriptionModel:
+        process.env.OPENAI_TRANSCRIPTION_MODEL ?? "[default whisper-1]",
+      maxBytes: process.env.MEDIA_MAX_BYTES ?? "[default 5242880]",
+    },
+    "env.MEDIA"
+  );
+  envLogger.debug(
+    { delayMs: process.env.WHATSAPP_SEGMENT_DELAY_MS ?? "[default 0]" },
+    "env.WHATSAPP_SEGMENT_DELAY_MS"
+  );
   envLogger.debug(
     {
       maxContextTokens:
-        process.env.OPENAI_MAX_CONTEXT_TOKENS ?? "[default 700]",
+        process.env.OPENAI_MAX_CONTEXT_TOKENS ?? "[default 4000]",
     },
     "env.OPENAI_MAX_CONTEXT_TOKENS"
   );
+  envLogger.debug(
+    {
+      maxOutputTokens:
+        process.env.OPENAI_MAX_OUTPUT_TOKENS ??
+        "[default TOKEN_BUDGET_OUTPUT_SHARE of the limit]",
+    },
+    "env.OPENAI_MAX_OUTPUT_TOKENS"
+  );
+  envLogger.debug(
+    { strategy: process.env.CONTEXT_COMPACTION ?? "[default drop]" },
+    "env.CONTEXT_COMPACTION"
+  );
+  envLogger.debug(
+    {
+      system: process.env.TOKEN_BUDGET_SYSTEM_SHARE ?? "[default 0.3]",
+      knowledge: process.env.TOKEN_BUDGET_KNOWLEDGE_SHARE ?? "[default 0.25]",
+      history: process.env.TOKEN_BUDGET_HISTORY_SHARE ?? "[default 0.25]",
+      output: process.env.TOKEN_BUDGET_OUTPUT_SHARE ?? "[default 0.2]",
+      minHistoryTokens:
+        process.env.TOKEN_BUDGET_MIN_HISTORY_TOKENS ?? "[default 150]",
+    },
+    "env.TOKEN_BUDGET"
+  );
   envLogger.debug(
     {
       embeddingModel:
@@ -130,6 +469,53 @@ function logEnvironmentDebug(): void {
     },
     "env.OPENAI_EMBEDDING_MODEL"
   );
+  envLogger.debug(
+    {
+      store: process.env.CONVERSATION_STORE ?? "[default memory]",
+      path:
+        process.env.CONVERSATION_STORE_PATH ?? "[default data/conversations]",
+    },
+    "env.CONVERSATION_STORE"
+  );
+  envLogger.debug(
+    { isSet: Boolean(process.env.ADMIN_API_TOKEN) },
+    "env.ADMIN_API_TOKEN"
+  );
+  envLogger.debug(
+    { directory: process.env.KB_SOURCE_DIR ?? "[default knowledge-base]" },
+    "env.KB_SOURCE_DIR"
+  );
+  envLogger.debug(
+    {
+      enabled: process.env.LEAD_EXTRACTION_ENABLED ?? "[default true]",
+    },
+    "env.LEAD_EXTRACTION_ENABLED"
+  );
+  envLogger.debug(
+    {
+      whatsAppNumber: process.env.STAFF_NOTIFY_WHATSAPP_NUMBER ?? "[not set]",
+      webhookUrlSet: Boolean(process.env.STAFF_NOTIFY_WEBHOOK_URL),
+    },
+    "env.STAFF_NOTIFY"
+  );
+  envLogger.debug(
+    {
+      store: process.env.VECTOR_STORE ?? "[default chroma]",
+      localPath:
+        process.env.LOCAL_VECTOR_STORE_PATH ??
+        "[default data/vector-store.json]",
+    },
+    "env.VECTOR_STORE"
+  );
+  envLogger.debug(
+    {
+      mode: process.env.CHROMA_MODE ?? "[default cloud]",
+      url: process.env.CHROMA_URL ?? "[not set]",
+      authTokenSet: Boolean(process.env.CHROMA_AUTH_TOKEN),
+      authHeader: process.env.CHROMA_AUTH_HEADER ?? "[default Authorization]",
+    },
+    "env.CHROMA_MODE"
+  );
   envLogger.debug(
     { isSet: Boolean(process.env.CHROMA_API_KEY) },
     "env.CHROMA_API_KEY"
@@ -146,6 +532,29 @@ function logEnvironmentDebug(): void {
     { collection: process.env.CHROMA_COLLECTION ?? "[not set]" },
     "env.CHROMA_COLLECTION"
   );
+  envLogger.debug(
+    { maxDistance: process.env.CHROMA_MAX_DISTANCE ?? "[not set]" },
+    "env.CHROMA_MAX_DISTANCE"
+  );
+  envLogger.debug(
+    { reranker: process.env.CHROMA_RERANKER ?? "[default none]" },
+    "env.CHROMA_RERANKER"
+  );
+  envLogger.debug(
+    { strategy: process.env.KB_QUERY_REWRITE ?? "[default window]" },
+    "env.KB_QUERY_REWRITE"
+  );
+  envLogger.debug(
+    {
+      maxEntries: process.env.EMBEDDING_CACHE_MAX_ENTRIES ?? "[default 1000]",
+      path: process.env.EMBEDDING_CACHE_PATH ?? "[not set]",
+    },
+    "env.EMBEDDING_CACHE"
+  );
+  envLogger.debug(
+    { language: process.env.KB_LANGUAGE ?? "[not set]" },
+    "env.KB_LANGUAGE"
+  );
 }
 
 function validateEnvironment(): Environment {
@@ -0,0 +1,243 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import type OpenAI from "openai";
+import { z } from "zod";
+import type { ConversationSummary } from "../services/ai/conversationStore.js";
+import type { Lead } from "../services/leads/leadExtraction.js";
+import {
+  conversationModes,
+  type ConversationMode,
+  type ConversationModeState,
+} from "../services/messaging/handoff.js";
+import type { MessageDeliveryRecord } from "../services/messaging/deliveryStatus.js";
+import type { SessionWindowState } from "../services/messaging/sessionWindow.js";
+import type { SendMessageResult } from "../types/index.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+const conversationParamsSchema = z.object({
+  conversationId: z.string().min(1, "conversationId is required"),
+});
+
+const messageParamsSchema = z.object({
+  messageSid: z.string().min(1, "messageSid is required"),
+});
+
+const conversationModeBodySchema = z.object({
+  mode: z.enum(conversationModes),
+});
+
+const staffMessageBodySchema = z.object({
+  body: z.string().trim().min(1, "body is required"),
+});
+
+export interface AdminHandlerDependencies {
+  listConversations: () => Promise<ConversationSummary[]>;
+  getConversationHistory: (
+    conversationId: string
+  ) => Promise<ChatMessage[] | null>;
+  resetConversation: (conversationId: string) => Promise<void>;
+  getConversationMode: (conversationId: string) => ConversationModeState;
+  getSessionWindow: (conversationId: string) => SessionWindowState | null;
+  setConversationMode: (
+    conversationId: string,
+    mode: ConversationMode
+  ) => ConversationModeState;
+  sendStaffReply: (
+    conversationId: string,
+    body: string
+  ) => Promise<SendMessageResult>;
+  getLead: (conversationId: string) => Lead | null;
+  listLeads: () => Lead[];
+  getDeliveryStatus: (messageSid: string) => MessageDeliveryRecord | null;
+  listDeliveries: (conversationId: string) => MessageDeliveryRecord[];
+}
+
+export function createAdminHandlers(dependencies: AdminHandlerDependencies) {
+  const {
+    listConversations,
+    getConversationHistory,
+    resetConversation,
+    getConversationMode,
+    getSessionWindow,
+    setConversationMode,
+    sendStaffReply,
+    getLead,
+    listLeads,
+    getDeliveryStatus,
+    listDeliveries,
+  } = dependencies;
+
+  const parseConversationParams = (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): string | null => {
+    const parsed = conversationParamsSchema.safeParse(request.params);
+    if (!parsed.success) {
+      void reply.status(400).send({
+        error: "Invalid conversation id",
+        details: parsed.error.flatten().fieldErrors,
+      });
+      return null;
+    }
+    return parsed.data.conversationId;
+  };
+
+  return {
+    async handleListConversations(
+      _request: FastifyRequest,
+      reply: FastifyReply
+    ) {
+      const conversations = await listConversations();
+      return reply.send({ conversations });
+    },
+
+    async handleGetConversation(request: FastifyRequest, reply: FastifyReply) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      const messages = await getConversationHistory(conversationId);
+      if (!messages) {
+        return reply.status(404).send({ error: "Conversation not found" });
+      }
+
+      return reply.send({
+        conversationId,
+        messages,
+        lead: getLead(conversationId),
+        sessionWindow: getSessionWindow(conversationId),
+      });
+    },
+
+    async handleResetConversation(
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      await resetConversation(conversationId);
+      request.log.info({ conversationId }, "admin.conversation.reset");
+      return reply.send({ success: true });
+    },
+
+    async handleGetConversationMode(
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      return reply.send({
+        conversationId,
+        ...getConversationMode(conversationId),
+      });
+    },
+
+    async handleSetConversationMode(
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      const parsed = conversationModeBodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          error: "Invalid request body",
+          details: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const state = setConversationMode(conversationId, parsed.data.mode);
+      return reply.send({ conversationId, ...state });
+    },
+
+    async handleSendStaffMessage(request: FastifyRequest, reply: FastifyReply) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      const parsed = staffMessageBodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          error: "Invalid request body",
+          details: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const result = await sendStaffReply(conversationId, parsed.data.body);
+
+      if (!result.success) {
+        return reply.status(502).send({
+          error: "Failed to send message",
+          details: result.error,
+        });
+      }
+
+      return reply.send({
+        success: true,
+        messageSid: result.messageSid,
+        ...getConversationMode(conversationId),
+      });
+    },
+
+    async handleListLeads(_request: FastifyRequest, reply: FastifyReply) {
+      return reply.send({ leads: listLeads() });
+    },
+
+    async handleGetLead(request: FastifyRequest, reply: FastifyReply) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      const lead = getLead(conversationId);
+      if (!lead) {
+        return reply.status(404).send({ error: "Lead not found" });
+      }
+
+      return reply.send({ lead });
+    },
+
+    async handleListDeliveries(request: FastifyRequest, reply: FastifyReply) {
+      const conversationId = parseConversationParams(request, reply);
+      if (!conversationId) {
+        return reply;
+      }
+
+      return reply.send({
+        conversationId,
+        deliveries: listDeliveries(conversationId),
+      });
+    },
+
+    async handleGetDeliveryStatus(
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) {
+      const parsed = messageParamsSchema.safeParse(request.params);
+      if (!parsed.success) {
+        return reply.status(400).send({
+          error: "Invalid message id",
+          details: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const delivery = getDeliveryStatus(parsed.data.messageSid);
+      if (!delivery) {
+        return reply.status(404).send({ error: "Message not found" });
+      }
+
+      return reply.send({ delivery });
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import { tokensMatch } from "../utils/tokens.js";
+
+export interface AdminAuthHandlerDependencies {
+  adminApiToken: string;
+}
+
+export function createAdminAuthHandler(
+  dependencies: AdminAuthHandlerDependencies
+) {
+  const { adminApiToken } = dependencies;
+
+  return async function verifyAdminToken(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    const authorization = request.headers.authorization ?? "";
+    const [scheme, token] = authorization.split(" ");
+
+    if (scheme !== "Bearer" || !token || !tokensMatch(token, adminApiToken)) {
+      request.log.warn({ url: request.url }, "admin.auth.rejected");
+      return reply.status(401).send({ error: "Unauthorized" });
+    }
+  };
+}
@@ -0,0 +1,25 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import type { Channel } from "../services/messaging/channel.js";
+
+export interface ChannelAuthHandlerDependencies {
+  channel: Channel;
+}
+
+export function createChannelAuthHandler(
+  dependencies: ChannelAuthHandlerDependencies
+) {
+  const { channel } = dependencies;
+
+  return async function verifyChannelRequest(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    if (!channel.authenticate?.(request.headers.authorization)) {
+      request.log.warn(
+        { url: request.url, channel: channel.name },
+        "channel.auth.rejected"
+      );
+      return reply.status(401).send({ error: "Unauthorized" });
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import { z } from "zod";
+import {
+  messageDeliveryStatuses,
+  type DeliveryStatusUpdate,
+  type MessageDeliveryRecord,
+} from "../services/messaging/deliveryStatus.js";
+
+const twilioStatusCallbackSchema = z.object({
+  MessageSid: z.string().min(1, "MessageSid field is required"),
+  MessageStatus: z.enum(messageDeliveryStatuses),
+  To: z.string().min(1).optional(),
+  ErrorCode: z.string().min(1).optional(),
+  ErrorMessage: z.string().min(1).optional(),
+});
+
+export interface DeliveryStatusHandlerDependencies {
+  recordDeliveryStatus: (update: DeliveryStatusUpdate) => MessageDeliveryRecord;
+}
+
+export function createDeliveryStatusHandlers(
+  dependencies: DeliveryStatusHandlerDependencies
+) {
+  const { recordDeliveryStatus } = dependencies;
+
+  return {
+    async handleTwilioStatusCallback(
+      request: FastifyRequest,
+      reply: FastifyReply
+    ) {
+      const parsed = twilioStatusCallbackSchema.safeParse(request.body);
+
+      if (!parsed.success) {
+        request.log.warn(
+          { errors: parsed.error.flatten().fieldErrors },
+          "twilio.status.invalid"
+        );
+        return reply.status(400).send({
+          error: "Invalid request body",
+          details: parsed.error.flatten().fieldErrors,
+        });
+      }
+
+      const { MessageSid, MessageStatus, To, ErrorCode, ErrorMessage } =
+        parsed.data;
+
+      recordDeliveryStatus({
+        messageSid: MessageSid,
+        status: MessageStatus,
+        ...(To && { to: To }),
+        ...(ErrorCode && { errorCode: ErrorCode }),
+        ...(ErrorMessage && { errorMessage: ErrorMessage }),
+      });
+
+      return reply.status(204).send();
+    },
+  };
+}
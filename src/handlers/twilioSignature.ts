@@ -0,0 +1,41 @@
+import type { FastifyRequest, FastifyReply } from "fastify";
+import {
+  resolvePublicUrl,
+  type TwilioSignatureService,
+} from "../services/messaging/twilioSignature.js";
+
+export interface TwilioSignatureHandlerDependencies {
+  twilioSignatureService: TwilioSignatureService;
+}
+
+export function createTwilioSignatureHandler(
+  dependencies: TwilioSignatureHandlerDependencies
+) {
+  const { twilioSignatureService } = dependencies;
+
+  return async function verifyTwilioSignature(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) {
+    const signatureHeader = request.headers["x-twilio-signature"];
+    const signature = Array.isArray(signatureHeader)
+      ? signatureHeader[0]
+      : signatureHeader;
+
+    const url = resolvePublicUrl({
+      headers: request.headers,
+      protocol: request.protocol,
+      url: request.url,
+    });
+
+    const params =
+      request.body && typeof request.body === "object"
+        ? (request.body as Record<string, unknown>)
+        : {};
+
+    if (!twilioSignatureService.isValidRequest({ signature, url, params })) {
+      request.log.warn({ url }, "twilio.webhook.rejected");
+      return reply.status(403).send({ error: "Invalid Twilio signature" });
+    }
+  };
+}
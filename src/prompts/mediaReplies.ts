@@ -0,0 +1,12 @@
+import type { InboundMediaKind } from "../services/messaging/inboundMedia.js";
+
+export const mediaFallbackReplies: Record<InboundMediaKind, string> = {
+  image:
+    "תודה על התמונה! כרגע אני לא מצליחה לפתוח תמונות. אפשר לתאר לי במילים במה מדובר?",
+  audio:
+    "תודה על ההודעה הקולית! כרגע אני לא מצליחה להאזין להקלטות. אפשר לכתוב לי את השאלה בהודעה?",
+  video:
+    "תודה על הסרטון! כרגע אני לא מצליחה לצפות בסרטונים. אפשר לכתוב לי במה אוכל לעזור?",
+  document:
+    "תודה על הקובץ! כרגע אני לא מצליחה לפתוח קבצים. אפשר לכתוב לי במה אוכל לעזור?",
+};
@@ -0,0 +1,59 @@
+import type { FastifyInstance } from "fastify";
+import {
+  createAdminHandlers,
+  type AdminHandlerDependencies,
+} from "../handlers/admin.js";
+import { createAdminAuthHandler } from "../handlers/adminAuth.js";
+
+export type AdminRouteDependencies = AdminHandlerDependencies & {
+  adminApiToken: string;
+};
+
+export async function adminRoutes(
+  app: FastifyInstance,
+  dependencies: AdminRouteDependencies
+) {
+  const {
+    handleListConversations,
+    handleGetConversation,
+    handleResetConversation,
+    handleGetConversationMode,
+    handleSetConversationMode,
+    handleSendStaffMessage,
+    handleListLeads,
+    handleGetLead,
+    handleListDeliveries,
+    handleGetDeliveryStatus,
+  } = createAdminHandlers(dependencies);
+
+  app.addHook(
+    "preHandler",
+    createAdminAuthHandler({ adminApiToken: dependencies.adminApiToken })
+  );
+
+  app.get("/admin/conversations", handleListConversations);
+  app.get("/admin/conversations/:conversationId", handleGetConversation);
+  app.post(
+    "/admin/conversations/:conversationId/reset",
+    handleResetConversation
+  );
+  app.get(
+    "/admin/conversations/:conversationId/mode",
+    handleGetConversationMode
+  );
+  app.put(
+    "/admin/conversations/:conversationId/mode",
+    handleSetConversationMode
+  );
+  app.post(
+    "/admin/conversations/:conversationId/messages",
+    handleSendStaffMessage
+  );
+  app.get("/admin/conversations/:conversationId/lead", handleGetLead);
+  app.get("/admin/leads", handleListLeads);
+  app.get(
+    "/admin/conversations/:conversationId/deliveries",
+    handleListDeliveries
+  );
+  app.get("/admin/messages/:messageSid/status", handleGetDeliveryStatus);
+}
@@ -1,8 +1,10 @@
 import type { FastifyInstance } from "fastify";
 import { messagesRoutes, type MessagesRouteDependencies } from "./messages.js";
+import { adminRoutes, type AdminRouteDependencies } from "./admin.js";
 
 export interface RoutesDependencies {
   messages: MessagesRouteDependencies;
+  admin?: AdminRouteDependencies;
 }
 
 export async function registerRoutes(
@@ -12,4 +14,11 @@ export async function registerRoutes(
   await app.register(async (instance) => {
     await messagesRoutes(instance, dependencies.messages);
   });
+
+  const { admin } = dependencies;
+  if (admin) {
+    await app.register(async (instance) => {
+      await adminRoutes(instance, admin);
+    });
+  }
 }
@@ -3,16 +3,49 @@ import {
   createMessagesHandlers,
   type MessagesHandlerDependencies,
 } from "../handlers/messages.js";
+import {
+  createDeliveryStatusHandlers,
+  type DeliveryStatusHandlerDependencies,
+} from "../handlers/deliveryStatus.js";
+import { createTwilioSignatureHandler } from "../handlers/twilioSignature.js";
+import { createChannelAuthHandler } from "../handlers/channelAuth.js";
+import type { Channel } from "../services/messaging/channel.js";
+import type { TwilioSignatureService } from "../services/messaging/twilioSignature.js";
 
-export type MessagesRouteDependencies = MessagesHandlerDependencies;
+export type MessagesRouteDependencies = MessagesHandlerDependencies &
+  DeliveryStatusHandlerDependencies & {
+    channels: Channel[];
+    twilioSignatureService?: TwilioSignatureService;
+  };
 
 export async function messagesRoutes(
   app: FastifyInstance,
   dependencies: MessagesRouteDependencies
 ) {
-  const { handleHealthCheck, handleWhatsAppWebhook } =
+  const { handleHealthCheck, createChannelWebhookHandler } =
     createMessagesHandlers(dependencies);
+  const { handleTwilioStatusCallback } =
+    createDeliveryStatusHandlers(dependencies);
+
+  const preHandler = dependencies.twilioSignatureService
+    ? [
+        createTwilioSignatureHandler({
+          twilioSignatureService: dependencies.twilioSignatureService,
+        }),
+      ]
+    : [];
 
   app.get("/", handleHealthCheck);
-  app.post("/whatsapp", handleWhatsAppWebhook);
+  for (const channel of dependencies.channels) {
+    app.post(
+      channel.webhookPath,
+      {
+        preHandler: channel.authenticate
+          ? [createChannelAuthHandler({ channel })]
+          : preHandler,
+      },
+      createChannelWebhookHandler(channel)
+    );
+  }
+  app.post("/twilio/status", { preHandler }, handleTwilioStatusCallback);
 }
@@ -2,14 +2,54 @@ import type { AddressInfo } from "node:net";
 import type { AppInstance } from "./app.js";
 import { buildApp } from "./app.js";
 import { env } from "./env.js";
+import { logger } from "./logger.js";
 import { createOpenAIClient } from "./clients/openai.js";
 import { createFakeOpenAIClient } from "./clients/openai.fake.js";
 import { createTwilioClient } from "./clients/twilio.js";
 import { createFakeTwilioClient } from "./clients/twilio.fake.js";
+import { createTwilioMediaClient } from "./clients/twilioMedia.js";
+import { createFakeTwilioMediaClient } from "./clients/twilioMedia.fake.js";
 import { createOpenAIService } from "./services/ai/openai.js";
 import { createTwilioService } from "./services/messaging/twilio.js";
+import { createTwilioSignatureService } from "./services/messaging/twilioSignature.js";
+import { createMessageDeduplicationStore } from "./services/messaging/messageDeduplication.js";
+import { createDeliveryStatusStore } from "./services/messaging/deliveryStatus.js";
+import { createSessionWindowTracker } from "./services/messaging/sessionWindow.js";
+import { createInboundMediaService } from "./services/messaging/inboundMedia.js";
+import { createOpenAITranscriber } from "./services/ai/transcription.js";
+import type { Channel } from "./services/messaging/channel.js";
+import {
+  createSmsChannel,
+  createWhatsAppChannel,
+  smsCapabilities,
+  twilioConversationIdOf,
+  whatsAppCapabilities,
+} from "./services/messaging/twilioChannels.js";
+import { createHttpChannel } from "./services/messaging/httpChannel.js";
 import { defaultSystemPrompt } from "./prompts/system.js";
-import { createChromaClient } from "./clients/chromadb.js";
+import {
+  createFileConversationStore,
+  createInMemoryConversationStore,
+} from "./services/ai/conversationStore.js";
+import {
+  createEmbeddingCache,
+  createFileEmbeddingStore,
+} from "./services/ai/embeddingCache.js";
+import {
+  createHistoryWindowQueryBuilder,
+  createLlmQueryRewriter,
+} from "./services/ai/knowledgeQuery.js";
+import { createBm25Reranker } from "./services/ai/knowledgeRanking.js";
+import { createHumanFollowupTool } from "./services/ai/assistantTools.js";
+import { createLocalVectorStore } from "./services/ai/localVectorStore.js";
+import { createLlmConversationSummarizer } from "./services/ai/conversationCompaction.js";
+import { createLeadExtractionService } from "./services/leads/leadExtraction.js";
+import { createFollowupRequestStore } from "./services/leads/followupRequests.js";
+import { createStaffNotifier } from "./services/messaging/staffNotifier.js";
+import {
+  chromaClientOptionsFromEnvironment,
+  createChromaClient,
+} from "./clients/chromadb.js";
 import { createFakeChromaClient } from "./clients/chromadb.fake.js";
 
 function shouldUseFakeClients() {
@@ -41,27 +81,81 @@ export async function startServer(
     ? createFakeTwilioClient()
     : createTwilioClient(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN);
 
-  const chromaClient = useFake
-    ? createFakeChromaClient()
-    : createChromaClient({
-        apiKey: env.CHROMA_API_KEY,
-        tenant: env.CHROMA_TENANT,
-        database: env.CHROMA_DATABASE,
+  const twilioMediaClient = useFake
+    ? createFakeTwilioMediaClient()
+    : createTwilioMediaClient({
+        accountSid: env.TWILIO_ACCOUNT_SID,
+        authToken: env.TWILIO_AUTH_TOKEN,
+        maxBytes: env.MEDIA_MAX_BYTES,
       });
 
-  const openAIService = createOpenAIService({
-    client: openAIClient,
-    model: env.OPENAI_MODEL,
-    tokenLimit: env.OPENAI_MAX_CONTEXT_TOKENS,
-    systemPrompt: JSON.stringify(defaultSystemPrompt),
-    embeddingModel: env.OPENAI_EMBEDDING_MODEL,
-    openAIApiKey: env.OPENAI_API_KEY,
-    chromaClient,
-    chromaCollection: env.CHROMA_COLLECTION,
+  const inboundMediaService = createInboundMediaService({
+    downloadMedia: twilioMediaClient.download,
+    imageInput: env.MEDIA_IMAGE_INPUT,
+    ...(env.AUDIO_TRANSCRIPTION === "openai" && {
+      transcriber: createOpenAITranscriber({
+        client: openAIClient,
+        model: env.OPENAI_TRANSCRIPTION_MODEL,
+      }),
+    }),
   });
 
+  const knowledgeStore =
+    env.VECTOR_STORE === "local"
+      ? {
+          vectorStore: createLocalVectorStore({
+            filePath: env.LOCAL_VECTOR_STORE_PATH,
+            ...(env.CHROMA_COLLECTION && {
+              collectionName: env.CHROMA_COLLECTION,
+            }),
+          }),
+        }
+      : {
+          chromaClient: useFake
+            ? createFakeChromaClient()
+            : createChromaClient(chromaClientOptionsFromEnvironment(env)),
+          chromaCollection: env.CHROMA_COLLECTION,
+        };
+
+  logger.info(
+    {
+      vectorStore: env.VECTOR_STORE,
+      ...(env.CHROMA_COLLECTION && { collection: env.CHROMA_COLLECTION }),
+      ...(env.VECTOR_STORE === "local" && {
+        path: env.LOCAL_VECTOR_STORE_PATH,
+      }),
+      ...(env.VECTOR_STORE === "chroma" && {
+        chromaMode: useFake ? "fake" : env.CHROMA_MODE,
+        ...(env.CHROMA_MODE === "server" &&
+          env.CHROMA_URL && {
+            chromaUrl: new URL(env.CHROMA_URL).origin,
+            chromaAuth: Boolean(env.CHROMA_AUTH_TOKEN),
+          }),
+      }),
+    },
+    "knowledge.store.selected"
+  );
+
+  const conversationStore =
+    env.CONVERSATION_STORE === "file"
+      ? createFileConversationStore({ directory: env.CONVERSATION_STORE_PATH })
+      : createInMemoryConversationStore();
+
+  const deliveryStatusStore = createDeliveryStatusStore({
+    conversationIdOf: twilioConversationIdOf,
+  });
+  const sessionWindowTracker = createSessionWindowTracker();
+
   const twilioOptions: Parameters<typeof createTwilioService>[0] = {
     client: twilioClient,
+    maxSegmentLength: whatsAppCapabilities.maxMessageLength,
+    segmentDelayMs: env.WHATSAPP_SEGMENT_DELAY_MS,
+    deliveryStatusStore,
+    conversationIdOf: twilioConversationIdOf,
+    sessionWindow: sessionWindowTracker,
+    ...(env.TWILIO_FOLLOWUP_CONTENT_SID && {
+      followupContentSid: env.TWILIO_FOLLOWUP_CONTENT_SID,
+    }),
   };
 
   if (env.TWILIO_PHONE_NUMBER) {
@@ -72,11 +166,157 @@ export async function startServer(
     twilioOptions.messagingServiceSid = env.TWILIO_MESSAGING_SERVICE_SID;
   }
 
+  if (env.PUBLIC_BASE_URL) {
+    twilioOptions.statusCallbackUrl = new URL(
+      "/twilio/status",
+      env.PUBLIC_BASE_URL
+    ).toString();
+  } else {
+    logger.warn("twilio.status.callback.disabled");
+  }
+
   const twilioService = createTwilioService(twilioOptions);
 
+  const channels: Channel[] = [createWhatsAppChannel({ twilioService })];
+
+  if (env.TWILIO_SMS_NUMBER) {
+    channels.push(
+      createSmsChannel({
+        twilioService: createTwilioService({
+          client: twilioClient,
+          fromNumber: env.TWILIO_SMS_NUMBER,
+          maxSegmentLength: smsCapabilities.maxMessageLength,
+          deliveryStatusStore,
+          conversationIdOf: twilioConversationIdOf,
+          ...(twilioOptions.statusCallbackUrl && {
+            statusCallbackUrl: twilioOptions.statusCallbackUrl,
+          }),
+        }),
+      })
+    );
+  }
+
+  if (env.WEB_CHANNEL_WEBHOOK_URL && env.WEB_CHANNEL_TOKEN) {
+    channels.push(
+      createHttpChannel({
+        webhookUrl: env.WEB_CHANNEL_WEBHOOK_URL,
+        token: env.WEB_CHANNEL_TOKEN,
+      })
+    );
+  }
+
+  logger.info(
+    { channels: channels.map((channel) => channel.name) },
+    "channels.enabled"
+  );
+
+  const staffNotifier = createStaffNotifier({
+    twilioService,
+    ...(env.STAFF_NOTIFY_WHATSAPP_NUMBER && {
+      whatsAppNumber: env.STAFF_NOTIFY_WHATSAPP_NUMBER,
+    }),
+    ...(env.STAFF_NOTIFY_WEBHOOK_URL && {
+      webhookUrl: env.STAFF_NOTIFY_WEBHOOK_URL,
+    }),
+  });
+
+  const followupRequests = createFollowupRequestStore();
+
+  const embeddingCache =
+    env.EMBEDDING_CACHE_MAX_ENTRIES > 0
+      ? createEmbeddingCache({
+          model: env.OPENAI_EMBEDDING_MODEL,
+          maxEntries: env.EMBEDDING_CACHE_MAX_ENTRIES,
+          ...(env.EMBEDDING_CACHE_PATH && {
+            store: createFileEmbeddingStore({
+              filePath: env.EMBEDDING_CACHE_PATH,
+            }),
+          }),
+        })
+      : undefined;
+
+  const openAIService = createOpenAIService({
+    client: openAIClient,
+    model: env.OPENAI_MODEL,
+    tokenLimit: env.OPENAI_MAX_CONTEXT_TOKENS,
+    tokenBudget: {
+      systemShare: env.TOKEN_BUDGET_SYSTEM_SHARE,
+      knowledgeShare: env.TOKEN_BUDGET_KNOWLEDGE_SHARE,
+      historyShare: env.TOKEN_BUDGET_HISTORY_SHARE,
+      outputShare: env.TOKEN_BUDGET_OUTPUT_SHARE,
+      minHistoryTokens: env.TOKEN_BUDGET_MIN_HISTORY_TOKENS,
+    },
+    ...(env.OPENAI_MAX_OUTPUT_TOKENS && {
+      maxOutputTokens: env.OPENAI_MAX_OUTPUT_TOKENS,
+    }),
+    systemPrompt: JSON.stringify(defaultSystemPrompt),
+    embeddingModel: env.OPENAI_EMBEDDING_MODEL,
+    openAIApiKey: env.OPENAI_API_KEY,
+    ...knowledgeStore,
+    ...(env.CHROMA_MAX_DISTANCE !== undefined && {
+      chromaMaxDistance: env.CHROMA_MAX_DISTANCE,
+    }),
+    ...(env.CHROMA_RERANKER === "bm25" && {
+      knowledgeReranker: createBm25Reranker(),
+    }),
+    ...(env.KB_LANGUAGE && {
+      knowledgeFilter: { language: env.KB_LANGUAGE },
+    }),
+    ...(env.KB_QUERY_REWRITE === "window" && {
+      knowledgeQueryBuilder: createHistoryWindowQueryBuilder(),
+    }),
+    ...(env.KB_QUERY_REWRITE === "llm" && {
+      knowledgeQueryBuilder: createLlmQueryRewriter({
+        client: openAIClient,
+        model: env.OPENAI_MODEL,
+      }),
+    }),
+    conversationStore,
+    ...(env.CONTEXT_COMPACTION === "summarize" && {
+      conversationSummarizer: createLlmConversationSummarizer({
+        client: openAIClient,
+        model: env.OPENAI_MODEL,
+      }),
+    }),
+    ...(embeddingCache && { embeddingCache }),
+    tools: [createHumanFollowupTool({ followupRequests, staffNotifier })],
+  });
+
+  const leadExtractionService = env.LEAD_EXTRACTION_ENABLED
+    ? createLeadExtractionService({
+        client: openAIClient,
+        model: env.OPENAI_MODEL,
+        getConversationHistory: (conversationId) =>
+          openAIService.getConversationHistory(conversationId),
+      })
+    : undefined;
+
+  const validateSignature = !useFake && env.TWILIO_VALIDATE_SIGNATURE;
+
+  if (!validateSignature) {
+    logger.warn({ useFake }, "twilio.signature.validation.disabled");
+  }
+
   const app = await buildApp({
     openAIService,
     twilioService,
+    channels,
+    workerConcurrency: env.MESSAGE_WORKER_CONCURRENCY,
+    messageDebounceMs: env.MESSAGE_DEBOUNCE_MS,
+    ...(env.ADMIN_API_TOKEN && { adminApiToken: env.ADMIN_API_TOKEN }),
+    ...(leadExtractionService && { leadExtractionService }),
+    inboundMediaService,
+    humanHandoffTimeoutMs: env.HUMAN_HANDOFF_TIMEOUT_MINUTES * 60 * 1000,
+    messageDeduplicationStore: createMessageDeduplicationStore({
+      ttlMs: env.MESSAGE_DEDUPE_TTL_SECONDS * 1000,
+    }),
+    deliveryStatusStore,
+    sessionWindowTracker,
+    ...(validateSignature && {
+      twilioSignatureService: createTwilioSignatureService({
+        authToken: env.TWILIO_AUTH_TOKEN,
+      }),
+    }),
   });
 
   await app.listen({
@@ -0,0 +1,120 @@
+import type OpenAI from "openai";
+import { z } from "zod";
+import { logger } from "../../logger.js";
+import {
+  workshopTypes,
+  type FollowupRequestStore,
+} from "../leads/followupRequests.js";
+import type { StaffNotifier } from "../messaging/staffNotifier.js";
+
+export interface AssistantTool {
+  definition: OpenAI.Chat.Completions.ChatCompletionFunctionTool;
+  execute: (conversationId: string, rawArguments: string) => Promise<string>;
+}
+
+export const HUMAN_FOLLOWUP_TOOL_NAME = "request_human_followup";
+
+const humanFollowupArgumentsSchema = z.object({
+  reason: z.string().trim().min(1, "reason is required"),
+  participants: z.number().int().positive().nullable().optional(),
+  workshop_type: z.enum(workshopTypes).nullable().optional(),
+  requested_date: z.string().trim().min(1).nullable().optional(),
+});
+
+export interface HumanFollowupToolOptions {
+  followupRequests: FollowupRequestStore;
+  staffNotifier: StaffNotifier;
+}
+
+export function createHumanFollowupTool(
+  options: HumanFollowupToolOptions
+): AssistantTool {
+  const { followupRequests, staffNotifier } = options;
+  const toolLogger = logger.child({
+    module: "assistant-tools",
+    tool: HUMAN_FOLLOWUP_TOOL_NAME,
+  });
+
+  const execute = async (
+    conversationId: string,
+    rawArguments: string
+  ): Promise<string> => {
+    let parsedJson: unknown;
+    try {
+      parsedJson = JSON.parse(rawArguments);
+    } catch {
+      toolLogger.warn({ conversationId }, "tool.arguments.invalid_json");
+      return JSON.stringify({ status: "error", error: "Invalid JSON" });
+    }
+
+    const parsed = humanFollowupArgumentsSchema.safeParse(parsedJson);
+    if (!parsed.success) {
+      toolLogger.warn(
+        { conversationId, errors: parsed.error.flatten().fieldErrors },
+        "tool.arguments.invalid"
+      );
+      return JSON.stringify({
+        status: "error",
+        error: parsed.error.flatten().fieldErrors,
+      });
+    }
+
+    const request = followupRequests.add({
+      conversationId,
+      reason: parsed.data.reason,
+      participants: parsed.data.participants ?? null,
+      workshopType: parsed.data.workshop_type ?? null,
+      requestedDate: parsed.data.requested_date ?? null,
+    });
+
+    toolLogger.info(
+      { conversationId, requestId: request.id, reason: request.reason },
+      "lead.followup.recorded"
+    );
+
+    const staffNotified = await staffNotifier.notify(request);
+
+    return JSON.stringify({
+      status: "recorded",
+      requestId: request.id,
+      staffNotified,
+    });
+  };
+
+  return {
+    definition: {
+      type: "function",
+      function: {
+        name: HUMAN_FOLLOWUP_TOOL_NAME,
+        description:
+          "Ask the studio team to follow up with the customer personally, e.g. for same-day or Shabbat bookings, availability checks, or health and accessibility questions.",
+        parameters: {
+          type: "object",
+          properties: {
+            reason: {
+              type: "string",
+              description: "Short explanation of why staff should follow up",
+            },
+            participants: {
+              type: ["integer", "null"],
+              description: "Number of participants, if known",
+            },
+            workshop_type: {
+              type: ["string", "null"],
+              enum: [...workshopTypes, null],
+              description:
+                "wheel = סדנת אובניים, foraging_and_imprint = סדנת ליקוט והטבעות",
+            },
+            requested_date: {
+              type: ["string", "null"],
+              description: "Requested date as the customer phrased it (DD/MM)",
+            },
+          },
+          required: ["reason"],
+          additionalProperties: false,
+        },
+      },
+    },
+    execute,
+  };
+}
@@ -0,0 +1,40 @@
+export interface CannedResponse {
+  key: string;
+  text: string;
+  title: string;
+  source: string;
+  mediaUrl?: string;
+}
+
+export interface CannedResponseRule {
+  key: string;
+  patterns: RegExp[];
+}
+
+const HEBREW_PREFIXES = "[והבלמשכ]{0,2}";
+
+const hebrewWord = (words: string[]) =>
+  new RegExp(
+    `(^|[^\\p{L}])${HEBREW_PREFIXES}(${words.join("|")})(?=[^\\p{L}]|$)`,
+    "u"
+  );
+
+export const defaultCannedResponseRules: CannedResponseRule[] = [
+  {
+    key: "response_same_day",
+    patterns: [hebrewWord(["היום", "הערב", "עכשיו"]), /\b(today|tonight)\b/i],
+  },
+  {
+    key: "response_shabbat",
+    patterns: [hebrewWord(["שבת"]), /\b(shabbat|saturday)\b/i],
+  },
+];
+
+export function matchCannedResponseKeys(
+  message: string,
+  rules: CannedResponseRule[] = defaultCannedResponseRules
+): string[] {
+  return rules
+    .filter((rule) => rule.patterns.some((pattern) => pattern.test(message)))
+    .map((rule) => rule.key);
+}
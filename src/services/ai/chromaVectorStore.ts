@@ -0,0 +1,119 @@
+import type {
+  ChromaClient,
+  Collection,
+  EmbeddingFunction,
+  Where,
+} from "chromadb";
+import { logger } from "../../logger.js";
+import type {
+  VectorMetadata,
+  VectorStore,
+  VectorWhere,
+} from "./vectorStore.js";
+
+export interface ChromaVectorStoreOptions {
+  chromaClient: ChromaClient;
+  collectionName: string;
+  embeddingFunction: EmbeddingFunction;
+}
+
+export function createChromaVectorStore(
+  options: ChromaVectorStoreOptions
+): VectorStore {
+  const { chromaClient, collectionName, embeddingFunction } = options;
+  const storeLogger = logger.child({
+    module: "chroma-vector-store",
+    collection: collectionName,
+  });
+
+  let collectionPromise: Promise<Collection> | null = null;
+
+  const resolveCollection = (): Promise<Collection> => {
+    if (!collectionPromise) {
+      collectionPromise = chromaClient
+        .getOrCreateCollection({ name: collectionName, embeddingFunction })
+        .catch((error) => {
+          collectionPromise = null;
+          storeLogger.error(
+            {
+              collection: collectionName,
+              error: error instanceof Error ? error.message : error,
+            },
+            "chroma.collection.resolve.failed"
+          );
+          return Promise.reject(error);
+        });
+    }
+    return collectionPromise;
+  };
+
+  void (async () => {
+    try {
+      await chromaClient.heartbeat();
+      storeLogger.info("chroma.heartbeat.success");
+    } catch (error) {
+      storeLogger.error(
+        { error: error instanceof Error ? error.message : error },
+        "chroma.heartbeat.failed"
+      );
+    }
+
+    try {
+      await resolveCollection();
+      storeLogger.info(
+        { collection: collectionName },
+        "chroma.collection.ready"
+      );
+    } catch {
+      // Ignore initialization errors
+    }
+  })();
+
+  const toWhere = (where: VectorWhere | undefined) =>
+    where ? { where: where as Where } : {};
+
+  return {
+    name: "chroma",
+    collection: collectionName,
+    query: async ({ queryEmbeddings, nResults, where }) => {
+      const collection = await resolveCollection();
+      const result = await collection.query({
+        queryEmbeddings,
+        nResults,
+        include: ["documents", "metadatas", "distances"],
+        ...toWhere(where),
+      });
+      return {
+        ids: result.ids ?? [],
+        documents: result.documents ?? [],
+        metadatas: (result.metadatas ?? []) as Array<
+          Array<VectorMetadata | null>
+        >,
+        distances: result.distances ?? [],
+      };
+    },
+    get: async ({ ids, where, limit, offset }) => {
+      const collection = await resolveCollection();
+      const result = await collection.get({
+        include: ["documents", "metadatas"],
+        ...(ids && { ids }),
+        ...(limit !== undefined && { limit }),
+        ...(offset !== undefined && { offset }),
+        ...toWhere(where),
+      });
+      return {
+        ids: result.ids,
+        documents: result.documents,
+        metadatas: result.metadatas as Array<VectorMetadata | null>,
+      };
+    },
+    upsert: async (args) => {
+      const collection = await resolveCollection();
+      await collection.upsert(args);
+    },
+    delete: async ({ ids }) => {
+      const collection = await resolveCollection();
+      await collection.delete({ ids });
+    },
+  };
+}
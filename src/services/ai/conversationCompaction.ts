@@ -0,0 +1,209 @@
+import type OpenAI from "openai";
+import { z } from "zod";
+import { logger } from "../../logger.js";
+import { conversationSummaryPrompt } from "../../prompts/conversationSummary.js";
+import { workshopTypes, type WorkshopType } from "../leads/followupRequests.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export const CONVERSATION_SUMMARY_NAME = "conversation_summary";
+
+const SUMMARY_HEADING = "Summary of earlier messages in this conversation:";
+const PINNED_FACTS_PREFIX = "Pinned facts: ";
+
+export interface PinnedFacts {
+  participants: number | null;
+  workshopType: WorkshopType | null;
+  requestedDate: string | null;
+}
+
+export interface RollingSummary {
+  summary: string;
+  facts: PinnedFacts;
+}
+
+export interface ConversationSummarizer {
+  summarize: (
+    conversationId: string,
+    previous: RollingSummary | null,
+    evicted: ChatMessage[]
+  ) => Promise<RollingSummary>;
+}
+
+export interface LlmConversationSummarizerOptions {
+  client: OpenAI;
+  model: string;
+}
+
+const summaryResponseSchema = z.object({
+  summary: z.string().trim().min(1),
+  participants: z.number().int().positive().nullable(),
+  workshop_type: z.enum(workshopTypes).nullable(),
+  requested_date: z.string().trim().min(1).nullable(),
+});
+
+const pinnedFactsSchema = z.object({
+  participants: z.number().int().positive().nullable().catch(null),
+  workshop_type: z.enum(workshopTypes).nullable().catch(null),
+  requested_date: z.string().min(1).nullable().catch(null),
+});
+
+const summaryResponseFormat: OpenAI.ResponseFormatJSONSchema = {
+  type: "json_schema",
+  json_schema: {
+    name: "conversation_summary",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        summary: { type: "string" },
+        participants: { type: ["integer", "null"] },
+        workshop_type: {
+          type: ["string", "null"],
+          enum: [...workshopTypes, null],
+        },
+        requested_date: { type: ["string", "null"] },
+      },
+      required: ["summary", "participants", "workshop_type", "requested_date"],
+      additionalProperties: false,
+    },
+  },
+};
+
+const messageText = (message: ChatMessage): string =>
+  typeof message.content === "string"
+    ? message.content
+    : JSON.stringify(message.content ?? "");
+
+export function isSummaryMessage(message: ChatMessage | undefined): boolean {
+  return (
+    message?.role === "system" && message.name === CONVERSATION_SUMMARY_NAME
+  );
+}
+
+export function renderSummaryMessage(summary: RollingSummary): ChatMessage {
+  const facts = {
+    participants: summary.facts.participants,
+    workshop_type: summary.facts.workshopType,
+    requested_date: summary.facts.requestedDate,
+  };
+
+  return {
+    role: "system",
+    name: CONVERSATION_SUMMARY_NAME,
+    content: [
+      SUMMARY_HEADING,
+      summary.summary,
+      `${PINNED_FACTS_PREFIX}${JSON.stringify(facts)}`,
+    ].join("\n"),
+  };
+}
+
+export function parseSummaryMessage(
+  message: ChatMessage | undefined
+): RollingSummary | null {
+  if (!message || !isSummaryMessage(message)) {
+    return null;
+  }
+
+  const lines = messageText(message).split("\n");
+  const factsLine = lines.find((line) => line.startsWith(PINNED_FACTS_PREFIX));
+  const summary = lines
+    .filter((line) => line !== SUMMARY_HEADING && line !== factsLine)
+    .join("\n")
+    .trim();
+
+  let facts: z.infer<typeof pinnedFactsSchema> = {
+    participants: null,
+    workshop_type: null,
+    requested_date: null,
+  };
+  if (factsLine) {
+    try {
+      const parsed = pinnedFactsSchema.safeParse(
+        JSON.parse(factsLine.slice(PINNED_FACTS_PREFIX.length))
+      );
+      if (parsed.success) {
+        facts = parsed.data;
+      }
+    } catch {
+      // Keep empty facts when the stored line is not valid JSON
+    }
+  }
+
+  return {
+    summary,
+    facts: {
+      participants: facts.participants,
+      workshopType: facts.workshop_type,
+      requestedDate: facts.requested_date,
+    },
+  };
+}
+
+export function createLlmConversationSummarizer(
+  options: LlmConversationSummarizerOptions
+): ConversationSummarizer {
+  const { client, model } = options;
+  const summarizerLogger = logger.child({
+    module: "conversation-summarizer",
+    model,
+  });
+
+  return {
+    summarize: async (conversationId, previous, evicted) => {
+      const transcript = evicted
+        .filter(
+          (message) => message.role === "user" || message.role === "assistant"
+        )
+        .map((message) => `${message.role}: ${messageText(message)}`)
+        .join("\n");
+
+      const startedAt = Date.now();
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: conversationSummaryPrompt },
+          {
+            role: "user",
+            content: [
+              previous
+                ? `Previous summary:\n${renderSummaryMessage(previous).content}`
+                : "Previous summary: none",
+              `Removed messages:\n${transcript}`,
+            ].join("\n\n"),
+          },
+        ],
+        response_format: summaryResponseFormat,
+      });
+
+      const parsed = summaryResponseSchema.safeParse(
+        JSON.parse(completion.choices[0]?.message?.content ?? "")
+      );
+      if (!parsed.success) {
+        throw new Error("Conversation summary did not match the schema");
+      }
+
+      summarizerLogger.info(
+        {
+          conversationId,
+          evicted: evicted.length,
+          durationMs: Date.now() - startedAt,
+        },
+        "conversation.summary.generated"
+      );
+
+      return {
+        summary: parsed.data.summary,
+        facts: {
+          participants:
+            parsed.data.participants ?? previous?.facts.participants ?? null,
+          workshopType:
+            parsed.data.workshop_type ?? previous?.facts.workshopType ?? null,
+          requestedDate:
+            parsed.data.requested_date ?? previous?.facts.requestedDate ?? null,
+        },
+      };
+    },
+  };
+}
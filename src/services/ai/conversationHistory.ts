@@ -1,10 +1,21 @@
 import OpenAI from "openai";
-import {
-  encoding_for_model,
-  type Tiktoken,
-  type TiktokenModel,
-} from "tiktoken";
 import { logger } from "../../logger.js";
+import {
+  isSummaryMessage,
+  parseSummaryMessage,
+  renderSummaryMessage,
+  type ConversationSummarizer,
+} from "./conversationCompaction.js";
+import {
+  createInMemoryConversationStore,
+  type ConversationStore,
+  type ConversationSummary,
+} from "./conversationStore.js";
+import {
+  createChatTokenCounter,
+  resolveTokenizer,
+  type ChatTokenizer,
+} from "./tokenCounting.js";
 
 type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
 
@@ -12,82 +23,116 @@ export interface ConversationHistoryServiceOptions {
   model: string;
   tokenLimit: number;
   systemPrompt: string;
-  tokenizer?: Pick<Tiktoken, "encode">;
+  tokenizer?: ChatTokenizer;
+  store?: ConversationStore;
+  summarizer?: ConversationSummarizer;
+  summaryTargetRatio?: number;
+  recentMessages?: number;
 }
 
 export interface ConversationHistoryService {
-  ensureConversation: (conversationId: string) => ChatMessage[];
-  addMessage: (conversationId: string, message: ChatMessage) => void;
-  resetConversation: (conversationId: string) => void;
+  ensureConversation: (conversationId: string) => Promise<ChatMessage[]>;
+  addMessage: (conversationId: string, message: ChatMessage) => Promise<void>;
+  resetConversation: (conversationId: string) => Promise<void>;
   countTokens: (messages: ChatMessage[]) => number;
+  countMessageTokens: (message: ChatMessage) => number;
   trimContext: (messages: ChatMessage[]) => boolean;
-  getMessages: (conversationId: string) => ChatMessage[];
+  trimConversation: (conversationId: string) => Promise<boolean>;
+  getMessages: (conversationId: string) => Promise<ChatMessage[]>;
+  findMessages: (conversationId: string) => Promise<ChatMessage[] | null>;
+  listConversations: () => Promise<ConversationSummary[]>;
 }
 
 export function createConversationHistoryService(
   options: ConversationHistoryServiceOptions
 ): ConversationHistoryService {
-  const { model, tokenLimit, systemPrompt } = options;
-  const tokenizer =
-    options.tokenizer ?? encoding_for_model(model as TiktokenModel);
+  const { model, tokenLimit, systemPrompt, summarizer } = options;
+  const summaryTargetRatio = Math.min(
+    1,
+    Math.max(0.1, options.summaryTargetRatio ?? 0.6)
+  );
+  const recentMessages = Math.max(1, options.recentMessages ?? 2);
+  const tokenCounter = createChatTokenCounter(
+    options.tokenizer ?? resolveTokenizer(model)
+  );
   const serviceLogger = logger.child({ module: "conversation-history", model });
 
-  const conversations = new Map<string, ChatMessage[]>();
+  const store = options.store ?? createInMemoryConversationStore();
+  const conversations = new Map<string, Promise<ChatMessage[]>>();
+  const compactions = new Map<string, Promise<boolean>>();
+
+  const createSystemMessage = (): ChatMessage => ({
+    role: "system",
+    content: systemPrompt,
+  });
+
+  const loadConversation = async (
+    conversationId: string
+  ): Promise<ChatMessage[]> => {
+    const stored = await store.load(conversationId);
+    if (stored && stored.length > 0) {
+      serviceLogger.debug(
+        { conversationId, messages: stored.length },
+        "conversation.store.loaded"
+      );
+    }
+    return [createSystemMessage(), ...(stored ?? [])];
+  };
+
+  const persistConversation = async (
+    conversationId: string,
+    messages: ChatMessage[]
+  ): Promise<void> => {
+    await store.save(conversationId, messages.slice(1));
+  };
 
-  const ensureConversation = (conversationId: string): ChatMessage[] => {
+  const ensureConversation = (
+    conversationId: string
+  ): Promise<ChatMessage[]> => {
     const existing = conversations.get(conversationId);
     if (existing) {
       return existing;
     }
 
-    const context: ChatMessage[] = [
-      {
-        role: "system",
-        content: systemPrompt,
-      },
-    ];
+    const context = loadConversation(conversationId).catch((error) => {
+      conversations.delete(conversationId);
+      return Promise.reject(error);
+    });
     conversations.set(conversationId, context);
     return context;
   };
 
-  const getMessages = (conversationId: string): ChatMessage[] => {
+  const getMessages = (conversationId: string): Promise<ChatMessage[]> => {
     return ensureConversation(conversationId);
   };
 
-  const addMessage = (conversationId: string, message: ChatMessage) => {
-    const messages = ensureConversation(conversationId);
+  // Unlike getMessages, looking up an unknown conversation does not start one.
+  const findMessages = async (
+    conversationId: string
+  ): Promise<ChatMessage[] | null> => {
+    const existing = conversations.get(conversationId);
+    if (existing) {
+      return existing;
+    }
+
+    const stored = await store.load(conversationId);
+    return stored && stored.length > 0
+      ? [createSystemMessage(), ...stored]
+      : null;
+  };
+
+  const addMessage = async (conversationId: string, message: ChatMessage) => {
+    const messages = await ensureConversation(conversationId);
     messages.push(message);
+    await persistConversation(conversationId, messages);
   };
 
-  const resetConversation = (conversationId: string) => {
-    conversations.set(conversationId, [
-      {
-        role: "system",
-        content: systemPrompt,
-      },
-    ]);
+  const resetConversation = async (conversationId: string) => {
+    conversations.set(conversationId, Promise.resolve([createSystemMessage()]));
+    await store.delete(conversationId);
   };
 
-  const countTokens = (messages: ChatMessage[]): number =>
-    messages.reduce((total, message) => {
-      if (typeof message.content === "string") {
-        return total + tokenizer.encode(message.content).length;
-      }
-
-      if (Array.isArray(message.content)) {
-        return (
-          total +
-          message.content.reduce((innerTotal, part) => {
-            if (part.type === "text") {
-              return innerTotal + tokenizer.encode(part.text).length;
-            }
-            return innerTotal;
-          }, 0)
-        );
-      }
-
-      return total;
-    }, 0);
+  const countTokens = tokenCounter.countMessages;
 
   const trimContext = (messages: ChatMessage[]): boolean => {
     let trimmed = false;
@@ -95,8 +140,10 @@ export function createConversationHistoryService(
 
     while (totalTokens > tokenLimit && messages.length > 1) {
       trimmed = true;
-      messages.splice(1, 1);
-      totalTokens = countTokens(messages);
+      const dropIndex =
+        isSummaryMessage(messages[1]) && messages.length > 2 ? 2 : 1;
+      const [dropped] = messages.splice(dropIndex, 1);
+      totalTokens -= dropped ? tokenCounter.countMessage(dropped) : 0;
     }
 
     if (trimmed) {
@@ -113,12 +160,112 @@ export function createConversationHistoryService(
     return trimmed;
   };
 
+  const summarizeEvictedTurns = async (
+    conversationId: string,
+    messages: ChatMessage[],
+    activeSummarizer: ConversationSummarizer
+  ): Promise<boolean> => {
+    if (countTokens(messages) <= tokenLimit) {
+      return false;
+    }
+
+    const hasSummary = isSummaryMessage(messages[1]);
+    const firstTurn = hasSummary ? 2 : 1;
+    const keepFrom = Math.max(firstTurn, messages.length - recentMessages);
+    const targetTokens = Math.floor(tokenLimit * summaryTargetRatio);
+
+    let evictUntil = firstTurn;
+    let remainingTokens = countTokens([
+      ...messages.slice(0, 1),
+      ...messages.slice(firstTurn),
+    ]);
+    while (evictUntil < keepFrom && remainingTokens > targetTokens) {
+      const evictedMessage = messages[evictUntil];
+      remainingTokens -= evictedMessage
+        ? tokenCounter.countMessage(evictedMessage)
+        : 0;
+      evictUntil += 1;
+    }
+
+    if (evictUntil === firstTurn) {
+      return trimContext(messages);
+    }
+
+    const evicted = messages.slice(firstTurn, evictUntil);
+    try {
+      const summary = await activeSummarizer.summarize(
+        conversationId,
+        hasSummary ? parseSummaryMessage(messages[1]) : null,
+        evicted
+      );
+      messages.splice(1, evictUntil - 1, renderSummaryMessage(summary));
+    } catch (error) {
+      serviceLogger.warn(
+        {
+          conversationId,
+          error: error instanceof Error ? error.message : error,
+        },
+        "conversation.context.summary.failed"
+      );
+      return trimContext(messages);
+    }
+
+    serviceLogger.info(
+      {
+        conversationId,
+        evicted: evicted.length,
+        tokenLimit,
+        totalTokens: countTokens(messages),
+        conversationLength: messages.length,
+      },
+      "conversation.context.summarized"
+    );
+
+    trimContext(messages);
+    return true;
+  };
+
+  const compactConversation = (
+    conversationId: string,
+    messages: ChatMessage[]
+  ): Promise<boolean> => {
+    if (!summarizer) {
+      return Promise.resolve(trimContext(messages));
+    }
+
+    const inFlight = compactions.get(conversationId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const compaction = summarizeEvictedTurns(
+      conversationId,
+      messages,
+      summarizer
+    ).finally(() => compactions.delete(conversationId));
+    compactions.set(conversationId, compaction);
+    return compaction;
+  };
+
+  const trimConversation = async (conversationId: string) => {
+    const messages = await ensureConversation(conversationId);
+    const trimmed = await compactConversation(conversationId, messages);
+    if (trimmed && (await ensureConversation(conversationId)) === messages) {
+      await persistConversation(conversationId, messages);
+    }
+    return trimmed;
+  };
+
   return {
     ensureConversation,
     addMessage,
     resetConversation,
     countTokens,
+    countMessageTokens: tokenCounter.countMessage,
     trimContext,
+    trimConversation,
     getMessages,
+    findMessages,
+    listConversations: store.list,
   };
 }
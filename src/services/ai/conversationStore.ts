@@ -0,0 +1,200 @@
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type OpenAI from "openai";
+import { logger } from "../../logger.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export interface ConversationSummary {
+  conversationId: string;
+  lastActivityAt: string;
+  messageCount: number;
+}
+
+export interface ConversationStore {
+  load: (conversationId: string) => Promise<ChatMessage[] | null>;
+  save: (conversationId: string, messages: ChatMessage[]) => Promise<void>;
+  delete: (conversationId: string) => Promise<void>;
+  list: () => Promise<ConversationSummary[]>;
+}
+
+export function createInMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<
+    string,
+    { messages: ChatMessage[]; updatedAt: string }
+  >();
+
+  return {
+    load: async (conversationId) => {
+      const stored = conversations.get(conversationId);
+      return stored ? [...stored.messages] : null;
+    },
+    save: async (conversationId, messages) => {
+      conversations.set(conversationId, {
+        messages: [...messages],
+        updatedAt: new Date().toISOString(),
+      });
+    },
+    delete: async (conversationId) => {
+      conversations.delete(conversationId);
+    },
+    list: async () =>
+      [...conversations.entries()].map(([conversationId, stored]) => ({
+        conversationId,
+        lastActivityAt: stored.updatedAt,
+        messageCount: stored.messages.length,
+      })),
+  };
+}
+
+export interface FileConversationStoreOptions {
+  directory: string;
+}
+
+interface StoredConversation {
+  conversationId: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+}
+
+export function createFileConversationStore(
+  options: FileConversationStoreOptions
+): ConversationStore {
+  const { directory } = options;
+  const storeLogger = logger.child({
+    module: "conversation-store",
+    directory,
+  });
+
+  let directoryReady: Promise<unknown> | null = null;
+  let writeSequence = 0;
+
+  const ensureDirectory = () => {
+    if (!directoryReady) {
+      directoryReady = mkdir(directory, { recursive: true }).catch(
+        (error: unknown) => {
+          directoryReady = null;
+          return Promise.reject(error);
+        }
+      );
+    }
+    return directoryReady;
+  };
+
+  const resolveFilePath = (conversationId: string) =>
+    path.join(directory, `${encodeURIComponent(conversationId)}.json`);
+
+  const readConversation = async (
+    filePath: string
+  ): Promise<StoredConversation> => {
+    const raw = await readFile(filePath, "utf8");
+    return JSON.parse(raw) as StoredConversation;
+  };
+
+  const load = async (conversationId: string) => {
+    try {
+      const stored = await readConversation(resolveFilePath(conversationId));
+      return Array.isArray(stored.messages) ? stored.messages : null;
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return null;
+      }
+      storeLogger.error(
+        {
+          conversationId,
+          error: error instanceof Error ? error.message : error,
+        },
+        "conversation.store.load.failed"
+      );
+      throw error;
+    }
+  };
+
+  const save = async (conversationId: string, messages: ChatMessage[]) => {
+    await ensureDirectory();
+
+    const filePath = resolveFilePath(conversationId);
+    const temporaryPath = `${filePath}.${process.pid}-${writeSequence++}.tmp`;
+    const payload: StoredConversation = {
+      conversationId,
+      updatedAt: new Date().toISOString(),
+      messages,
+    };
+
+    try {
+      await writeFile(temporaryPath, JSON.stringify(payload), "utf8");
+      await rename(temporaryPath, filePath);
+    } catch (error) {
+      storeLogger.error(
+        {
+          conversationId,
+          error: error instanceof Error ? error.message : error,
+        },
+        "conversation.store.save.failed"
+      );
+      throw error;
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    await rm(resolveFilePath(conversationId), { force: true });
+  };
+
+  const list = async (): Promise<ConversationSummary[]> => {
+    let fileNames: string[];
+    try {
+      fileNames = await readdir(directory);
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const summaries = await Promise.all(
+      fileNames
+        .filter((fileName) => fileName.endsWith(".json"))
+        .map(async (fileName) => {
+          try {
+            const stored = await readConversation(
+              path.join(directory, fileName)
+            );
+            return {
+              conversationId: stored.conversationId,
+              lastActivityAt: stored.updatedAt,
+              messageCount: Array.isArray(stored.messages)
+                ? stored.messages.length
+                : 0,
+            };
+          } catch (error) {
+            storeLogger.warn(
+              {
+                fileName,
+                error: error instanceof Error ? error.message : error,
+              },
+              "conversation.store.list.skipped"
+            );
+            return null;
+          }
+        })
+    );
+
+    return summaries.filter(
+      (summary): summary is ConversationSummary => summary !== null
+    );
+  };
+
+  return {
+    load,
+    save,
+    delete: deleteConversation,
+    list,
+  };
+}
@@ -0,0 +1,249 @@
+import { createHash } from "node:crypto";
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { logger } from "../../logger.js";
+import type { EmbeddingVector } from "./knowledgeBase.js";
+
+type EmbedTexts = (texts: string[]) => Promise<EmbeddingVector[]>;
+
+export interface CachedEmbedding {
+  key: string;
+  embedding: EmbeddingVector;
+}
+
+export interface PersistentEmbeddingStore {
+  load: () => Promise<CachedEmbedding[]>;
+  append: (entries: CachedEmbedding[]) => Promise<void>;
+  rewrite: (entries: CachedEmbedding[]) => Promise<void>;
+}
+
+export interface EmbeddingCacheOptions {
+  model: string;
+  maxEntries: number;
+  store?: PersistentEmbeddingStore;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  maxEntries: number;
+}
+
+export interface EmbeddingCache {
+  wrap: (embedTexts: EmbedTexts) => EmbedTexts;
+  stats: () => EmbeddingCacheStats;
+}
+
+export function normalizeEmbeddingText(text: string): string {
+  return text.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function createFileEmbeddingStore(options: {
+  filePath: string;
+}): PersistentEmbeddingStore {
+  const { filePath } = options;
+  const storeLogger = logger.child({ module: "embedding-store", filePath });
+  let writeSequence = 0;
+
+  const toLines = (entries: CachedEmbedding[]) =>
+    entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+
+  const load = async (): Promise<CachedEmbedding[]> => {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return raw.split("\n").flatMap((line) => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        const entry = JSON.parse(line) as CachedEmbedding;
+        return typeof entry.key === "string" && Array.isArray(entry.embedding)
+          ? [entry]
+          : [];
+      } catch {
+        storeLogger.warn("embedding.store.line.invalid");
+        return [];
+      }
+    });
+  };
+
+  const append = async (entries: CachedEmbedding[]) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, toLines(entries), "utf8");
+  };
+
+  const rewrite = async (entries: CachedEmbedding[]) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const temporaryPath = `${filePath}.${process.pid}-${writeSequence++}.tmp`;
+    await writeFile(temporaryPath, toLines(entries), "utf8");
+    await rename(temporaryPath, filePath);
+  };
+
+  return { load, append, rewrite };
+}
+
+export function createEmbeddingCache(
+  options: EmbeddingCacheOptions
+): EmbeddingCache {
+  const { model, store } = options;
+  const maxEntries = Math.max(1, Math.floor(options.maxEntries));
+  const cacheLogger = logger.child({ module: "embedding-cache", model });
+
+  const entries = new Map<string, EmbeddingVector>();
+  let hits = 0;
+  let misses = 0;
+  let persistedLines = 0;
+  let loaded: Promise<void> | null = null;
+
+  const toKey = (text: string) =>
+    createHash("sha256")
+      .update(`${model}\n${normalizeEmbeddingText(text)}`)
+      .digest("hex");
+
+  const remember = (key: string, embedding: EmbeddingVector) => {
+    entries.delete(key);
+    entries.set(key, embedding);
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      entries.delete(oldest);
+    }
+  };
+
+  const ensureLoaded = () => {
+    if (!store) {
+      return Promise.resolve();
+    }
+    if (!loaded) {
+      loaded = store
+        .load()
+        .then((stored) => {
+          persistedLines = stored.length;
+          stored.forEach(({ key, embedding }) => remember(key, embedding));
+          cacheLogger.info(
+            { loaded: stored.length, size: entries.size },
+            "embedding.cache.loaded"
+          );
+        })
+        .catch((error: unknown) => {
+          cacheLogger.error(
+            { error: error instanceof Error ? error.message : error },
+            "embedding.cache.load.failed"
+          );
+        });
+    }
+    return loaded;
+  };
+
+  const persist = async (fresh: CachedEmbedding[]) => {
+    if (!store || fresh.length === 0) {
+      return;
+    }
+
+    try {
+      if (persistedLines + fresh.length > maxEntries * 2) {
+        const snapshot = [...entries].map(([key, embedding]) => ({
+          key,
+          embedding,
+        }));
+        await store.rewrite(snapshot);
+        persistedLines = snapshot.length;
+      } else {
+        await store.append(fresh);
+        persistedLines += fresh.length;
+      }
+    } catch (error) {
+      cacheLogger.error(
+        { error: error instanceof Error ? error.message : error },
+        "embedding.cache.persist.failed"
+      );
+    }
+  };
+
+  const wrap =
+    (embedTexts: EmbedTexts): EmbedTexts =>
+    async (texts) => {
+      await ensureLoaded();
+
+      const keys = texts.map(toKey);
+      const results: Array<EmbeddingVector | undefined> = keys.map((key) => {
+        const cached = entries.get(key);
+        if (cached) {
+          remember(key, cached);
+        }
+        return cached;
+      });
+
+      const missingKeys = [
+        ...new Set(keys.filter((_, index) => !results[index])),
+      ];
+      const callHits = results.filter(Boolean).length;
+      hits += callHits;
+      misses += texts.length - callHits;
+
+      if (missingKeys.length > 0) {
+        const missingTexts = missingKeys.map(
+          (key) => texts[keys.indexOf(key)] ?? ""
+        );
+        const embeddings = await embedTexts(missingTexts);
+        const fresh: CachedEmbedding[] = [];
+
+        missingKeys.forEach((key, index) => {
+          const embedding = embeddings[index];
+          if (!embedding) {
+            return;
+          }
+          remember(key, embedding);
+          fresh.push({ key, embedding });
+          keys.forEach((candidate, position) => {
+            if (candidate === key) {
+              results[position] = embedding;
+            }
+          });
+        });
+
+        await persist(fresh);
+      }
+
+      cacheLogger.info(
+        {
+          hits: callHits,
+          misses: texts.length - callHits,
+          totalHits: hits,
+          totalMisses: misses,
+          size: entries.size,
+          maxEntries,
+        },
+        "embedding.cache.lookup"
+      );
+
+      return results.map((embedding, index) => {
+        if (!embedding) {
+          throw new Error(`Missing embedding for input at index ${index}`);
+        }
+        return embedding;
+      });
+    };
+
+  return {
+    wrap,
+    stats: () => ({ hits, misses, size: entries.size, maxEntries }),
+  };
+}
@@ -1,10 +1,24 @@
-import {
-  type ChromaClient,
-  type Collection,
-  type EmbeddingFunction as ChromaEmbeddingFunction,
+import type {
+  ChromaClient,
+  EmbeddingFunction as ChromaEmbeddingFunction,
 } from "chromadb";
 import OpenAI from "openai";
 import { logger } from "../../logger.js";
+import {
+  defaultCannedResponseRules,
+  matchCannedResponseKeys,
+  type CannedResponse,
+  type CannedResponseRule,
+} from "./cannedResponses.js";
+import { createChromaVectorStore } from "./chromaVectorStore.js";
+import type { EmbeddingCache } from "./embeddingCache.js";
+import type { KnowledgeQueryBuilder } from "./knowledgeQuery.js";
+import {
+  textSimilarity,
+  type KnowledgeCandidate,
+  type KnowledgeReranker,
+} from "./knowledgeRanking.js";
+import type { VectorStore, VectorWhere } from "./vectorStore.js";
 
 export type EmbeddingVector = number[];
 
@@ -78,29 +92,168 @@ export function createOpenAIEmbeddingFunction(
 export interface KnowledgeEntry {
   title: string;
   source?: string | null;
+  mediaUrl?: string;
+}
+
+export interface KnowledgeSnippet {
+  kind: "canned" | "retrieved";
+  entry: KnowledgeEntry;
+  text: string;
 }
 
 export interface KnowledgeContext {
   message: OpenAI.Chat.Completions.ChatCompletionMessageParam;
   entries: KnowledgeEntry[];
+  snippets: KnowledgeSnippet[];
+}
+
+export interface KnowledgeFilter {
+  topic?: string | string[];
+  language?: string;
+}
+
+export interface BuildKnowledgeContextOptions {
+  history?: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  filter?: KnowledgeFilter;
 }
 
 export interface KnowledgeBaseServiceOptions {
-  chromaClient: ChromaClient;
-  chromaCollection: string;
+  vectorStore?: VectorStore;
+  chromaClient?: ChromaClient;
+  chromaCollection?: string;
   embeddingModel: string;
   openAIApiKey: string;
   chromaMaxResults?: number;
   chromaMaxCharacters?: number;
+  chromaMaxDistance?: number;
+  chromaCandidateResults?: number;
+  duplicateSimilarity?: number;
+  reranker?: KnowledgeReranker;
+  queryBuilder?: KnowledgeQueryBuilder;
+  defaultFilter?: KnowledgeFilter;
+  cannedResponseRules?: CannedResponseRule[];
   embedTexts?: (texts: string[]) => Promise<EmbeddingVector[]>;
+  embeddingCache?: EmbeddingCache;
   openaiClient: OpenAI; // Used for fallback embedding if custom embedTexts not provided
 }
 
+type DropReason =
+  | "empty"
+  | "distance_above_threshold"
+  | "duplicate"
+  | "rank_cutoff";
+
+interface RetrievedRow {
+  document: string | null;
+  metadata: Record<string, unknown>;
+  distance: number | null;
+}
+
+interface RetrievedKnowledge {
+  snippets: KnowledgeSnippet[];
+}
+
+interface ScoredResult {
+  title: string;
+  distance: number | null;
+  score: number | null;
+  kept: boolean;
+  reason?: DropReason;
+}
+
 export interface KnowledgeBaseService {
   buildKnowledgeContext: (
     conversationId: string,
-    userMessage: string
+    userMessage: string,
+    options?: BuildKnowledgeContextOptions
   ) => Promise<KnowledgeContext | null>;
+  getCannedResponse: (key: string) => Promise<CannedResponse | null>;
+}
+
+export function renderKnowledgeContext(
+  snippets: KnowledgeSnippet[]
+): KnowledgeContext | null {
+  const canned = snippets.filter((snippet) => snippet.kind === "canned");
+  const retrieved = snippets.filter((snippet) => snippet.kind === "retrieved");
+
+  const sections: string[] = [];
+  if (canned.length > 0) {
+    sections.push(
+      `Fixed responses for this message (quote them word for word, do not rephrase):\n${canned
+        .map((snippet) => snippet.text)
+        .join("\n\n")}`
+    );
+  }
+  if (retrieved.length > 0) {
+    sections.push(
+      `Knowledge base context:\n${retrieved
+        .map((snippet) => snippet.text)
+        .join("\n")}`
+    );
+  }
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  const ordered = [...canned, ...retrieved];
+  return {
+    entries: ordered.map((snippet) => snippet.entry),
+    snippets: ordered,
+    message: {
+      role: "system",
+      content: sections.join("\n\n"),
+    },
+  };
+}
+
+// Canned responses must reach the model verbatim, so only retrieved snippets
+// are dropped; a context made of canned responses alone may exceed maxTokens.
+export function trimKnowledgeContext(
+  context: KnowledgeContext,
+  maxTokens: number,
+  countMessageTokens: (
+    message: OpenAI.Chat.Completions.ChatCompletionMessageParam
+  ) => number
+): KnowledgeContext | null {
+  let current: KnowledgeContext | null = context;
+  let snippets = context.snippets;
+
+  while (current && countMessageTokens(current.message) > maxTokens) {
+    const lastRetrieved = snippets
+      .map((snippet) => snippet.kind)
+      .lastIndexOf("retrieved");
+    if (lastRetrieved < 0) {
+      break;
+    }
+    snippets = snippets.filter((_, index) => index !== lastRetrieved);
+    current = renderKnowledgeContext(snippets);
+  }
+
+  return current;
+}
+
+export function toVectorWhere(
+  filter: KnowledgeFilter
+): VectorWhere | undefined {
+  const clauses: VectorWhere[] = [];
+
+  if (Array.isArray(filter.topic)) {
+    if (filter.topic.length > 0) {
+      clauses.push({ topic: { $in: filter.topic } });
+    }
+  } else if (filter.topic) {
+    clauses.push({ topic: filter.topic });
+  }
+
+  if (filter.language) {
+    clauses.push({ language: filter.language });
+  }
+
+  if (clauses.length <= 1) {
+    return clauses[0];
+  }
+  return { $and: clauses };
 }
 
 export function createKnowledgeBaseService(
@@ -117,8 +270,18 @@ export function createKnowledgeBaseService(
   const serviceLogger = logger.child({ module: "knowledge-base-service" });
   const chromaMaxResults = options.chromaMaxResults ?? 5;
   const chromaMaxCharacters = options.chromaMaxCharacters ?? 1500;
-
-  let chromaCollectionPromise: Promise<Collection> | null = null;
+  const chromaMaxDistance = options.chromaMaxDistance;
+  const duplicateSimilarity = options.duplicateSimilarity ?? 0.9;
+  const reranker = options.reranker;
+  const queryBuilder = options.queryBuilder;
+  const defaultFilter = options.defaultFilter ?? {};
+  const cannedResponseRules =
+    options.cannedResponseRules ?? defaultCannedResponseRules;
+  const chromaCandidateResults = Math.max(
+    chromaMaxResults,
+    options.chromaCandidateResults ??
+      (reranker ? chromaMaxResults * 3 : chromaMaxResults)
+  );
 
   const logInfo = (message: string, meta?: Record<string, unknown>) => {
     serviceLogger.info(meta ?? {}, message);
@@ -132,7 +295,7 @@ export function createKnowledgeBaseService(
     serviceLogger.warn(meta ?? {}, message);
   };
 
-  const embedTexts =
+  const baseEmbedTexts =
     options.embedTexts ??
     (async (texts: string[]): Promise<EmbeddingVector[]> => {
       const response = await openaiClient.embeddings.create({
@@ -151,75 +314,211 @@ export function createKnowledgeBaseService(
       });
     });
 
+  const embedTexts = options.embeddingCache
+    ? options.embeddingCache.wrap(baseEmbedTexts)
+    : baseEmbedTexts;
+
   const chromaEmbeddingFunction = createOpenAIEmbeddingFunction({
     openai_api_key: openAIApiKey,
     model: embeddingModel,
     embedTexts,
   });
 
-  const resolveChromaCollection = async (): Promise<Collection | null> => {
-    if (!chromaCollectionPromise) {
-      chromaCollectionPromise = chromaClient
-        .getOrCreateCollection({
-          name: chromaCollection,
+  const vectorStore =
+    options.vectorStore ??
+    (chromaClient && chromaCollection
+      ? createChromaVectorStore({
+          chromaClient,
+          collectionName: chromaCollection,
           embeddingFunction: chromaEmbeddingFunction,
         })
-        .catch((error) => {
-          chromaCollectionPromise = null;
-          logError("chroma.collection.resolve.failed", {
-            collection: chromaCollection,
-            error: error instanceof Error ? error.message : error,
-          });
-          return Promise.reject(error);
-        });
-    }
+      : null);
 
-    try {
-      return await chromaCollectionPromise;
-    } catch {
-      return null;
+  if (!vectorStore) {
+    throw new Error(
+      "Knowledge base requires a vector store or a Chroma client and collection"
+    );
+  }
+
+  const truncate = (value: string, limit: number): string => {
+    if (value.length <= limit) {
+      return value;
     }
+    const sliceLimit = Math.max(0, limit - 3);
+    return `${value.slice(0, sliceLimit)}...`;
   };
 
-  void (async () => {
+  const buildQueries = async (
+    conversationId: string,
+    userMessage: string,
+    history: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
+  ): Promise<string[]> => {
+    if (!queryBuilder) {
+      return [userMessage];
+    }
+
+    let queries: string[];
     try {
-      await chromaClient.heartbeat();
-      logInfo("chroma.heartbeat.success");
+      queries = await queryBuilder.buildQueries(userMessage, history);
     } catch (error) {
-      logError("chroma.heartbeat.failed", {
+      logWarn("knowledge.query.rewrite.failed", {
+        conversationId,
+        builder: queryBuilder.name,
         error: error instanceof Error ? error.message : error,
       });
+      return [userMessage];
     }
 
-    try {
-      await resolveChromaCollection();
-      logInfo("chroma.collection.ready", { collection: chromaCollection });
-    } catch {
-      // Ignore initialization errors
+    const unique = [
+      ...new Set(queries.map((query) => query.trim()).filter(Boolean)),
+    ];
+    const finalQueries = unique.length > 0 ? unique : [userMessage];
+
+    logInfo("knowledge.query.rewritten", {
+      conversationId,
+      builder: queryBuilder.name,
+      original: userMessage,
+      queries: finalQueries,
+    });
+
+    return finalQueries;
+  };
+
+  const mergeQueryResults = (queryResult: {
+    ids?: string[][];
+    documents?: Array<Array<string | null>>;
+    metadatas?: Array<Array<Record<string, unknown> | null>>;
+    distances?: Array<Array<number | null>>;
+  }): RetrievedRow[] => {
+    const rows = new Map<string, RetrievedRow>();
+
+    (queryResult.documents ?? []).forEach((documents, queryIndex) => {
+      const ids = queryResult.ids?.[queryIndex] ?? [];
+      const metadatas = queryResult.metadatas?.[queryIndex] ?? [];
+      const distances = queryResult.distances?.[queryIndex] ?? [];
+
+      documents.forEach((document, index) => {
+        const rawDistance = distances[index];
+        const row: RetrievedRow = {
+          document,
+          metadata: metadatas[index] ?? {},
+          distance: typeof rawDistance === "number" ? rawDistance : null,
+        };
+        const key =
+          ids[index] ?? document ?? `query-${queryIndex}-result-${index}`;
+        const existing = rows.get(key);
+
+        if (
+          !existing ||
+          (row.distance !== null &&
+            (existing.distance === null || row.distance < existing.distance))
+        ) {
+          rows.set(key, row);
+        }
+      });
+    });
+
+    const merged = [...rows.values()];
+    if ((queryResult.documents?.length ?? 0) > 1) {
+      merged.sort(
+        (left, right) =>
+          (left.distance ?? Number.POSITIVE_INFINITY) -
+          (right.distance ?? Number.POSITIVE_INFINITY)
+      );
     }
-  })();
+    return merged;
+  };
 
-  const truncate = (value: string, limit: number): string => {
-    if (value.length <= limit) {
-      return value;
+  const lookupCannedResponse = async (
+    key: string
+  ): Promise<CannedResponse | null> => {
+    const result = await vectorStore.get({ where: { key } });
+
+    const index = result.documents.findIndex(Boolean);
+    const text = result.documents[index];
+    if (index < 0 || !text) {
+      return null;
     }
-    const sliceLimit = Math.max(0, limit - 3);
-    return `${value.slice(0, sliceLimit)}...`;
+
+    const metadata = result.metadatas[index] ?? {};
+    return {
+      key,
+      text,
+      title: typeof metadata.title === "string" ? metadata.title : key,
+      source: typeof metadata.source === "string" ? metadata.source : "unknown",
+      ...(typeof metadata.media_url === "string" && {
+        mediaUrl: metadata.media_url,
+      }),
+    };
   };
 
-  const buildKnowledgeContext = async (
+  const getCannedResponse = async (
+    key: string
+  ): Promise<CannedResponse | null> => {
+    try {
+      return await lookupCannedResponse(key);
+    } catch (error) {
+      logError("knowledge.canned.lookup.failed", {
+        key,
+        collection: vectorStore.collection,
+        store: vectorStore.name,
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  };
+
+  const resolveCannedResponses = async (
     conversationId: string,
     userMessage: string
-  ): Promise<KnowledgeContext | null> => {
-    const collection = await resolveChromaCollection();
+  ): Promise<CannedResponse[]> => {
+    const keys = matchCannedResponseKeys(userMessage, cannedResponseRules);
+    if (keys.length === 0) {
+      return [];
+    }
 
-    if (!collection) {
-      return null;
+    const responses: CannedResponse[] = [];
+    for (const key of keys) {
+      try {
+        const response = await lookupCannedResponse(key);
+        if (response) {
+          responses.push(response);
+        } else {
+          logWarn("knowledge.canned.missing", { conversationId, key });
+        }
+      } catch (error) {
+        logError("knowledge.canned.lookup.failed", {
+          conversationId,
+          key,
+          collection: vectorStore.collection,
+          store: vectorStore.name,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
     }
 
+    logInfo("knowledge.canned.matched", {
+      conversationId,
+      keys,
+      injected: responses.map((response) => response.key),
+    });
+
+    return responses;
+  };
+
+  const retrieveKnowledge = async (
+    conversationId: string,
+    userMessage: string,
+    options: BuildKnowledgeContextOptions,
+    excludedKeys: Set<string>
+  ): Promise<RetrievedKnowledge | null> => {
+    const history = options.history ?? [];
+    const where = toVectorWhere({ ...defaultFilter, ...options.filter });
+    const queries = await buildQueries(conversationId, userMessage, history);
+
     let queryEmbeddings: EmbeddingVector[];
     try {
-      queryEmbeddings = await embedTexts([userMessage]);
+      queryEmbeddings = await embedTexts(queries);
     } catch (error) {
       logWarn("openai.embedding.failed", {
         conversationId,
@@ -236,31 +535,18 @@ export function createKnowledgeBaseService(
     }
 
     try {
-      const queryResult = await collection.query({
+      const queryResult = await vectorStore.query({
         queryEmbeddings,
-        nResults: chromaMaxResults,
-        include: ["documents", "metadatas", "distances"],
+        nResults: chromaCandidateResults,
+        ...(where && { where }),
       });
 
-      const documents = queryResult.documents?.[0] ?? [];
-      const metadatas = queryResult.metadatas?.[0] ?? [];
-      const distances = queryResult.distances?.[0] ?? [];
+      const rows = mergeQueryResults(queryResult);
 
-      const entries: string[] = [];
-      const perDocumentLimit = Math.max(
-        200,
-        Math.floor(chromaMaxCharacters / Math.max(1, chromaMaxResults))
-      );
+      const results: ScoredResult[] = [];
+      const candidates: KnowledgeCandidate[] = [];
 
-      const entriesForContext: KnowledgeEntry[] = [];
-
-      documents.forEach((doc, index) => {
-        if (!doc) {
-          return;
-        }
-
-        const metadata =
-          (Array.isArray(metadatas) ? metadatas[index] : null) ?? {};
+      rows.forEach(({ document: doc, metadata, distance }, index) => {
         const title =
           metadata && typeof metadata.title === "string"
             ? metadata.title
@@ -269,57 +555,162 @@ export function createKnowledgeBaseService(
           metadata && typeof metadata.source === "string"
             ? metadata.source
             : "unknown";
-        const distance = Array.isArray(distances) ? distances[index] : null;
 
-        entriesForContext.push({ title, source });
+        const drop = (reason: DropReason) =>
+          results.push({ title, distance, score: null, kept: false, reason });
 
+        if (!doc) {
+          drop("empty");
+          return;
+        }
+
+        if (
+          typeof metadata.key === "string" &&
+          excludedKeys.has(metadata.key)
+        ) {
+          drop("duplicate");
+          return;
+        }
+
+        if (
+          chromaMaxDistance !== undefined &&
+          distance !== null &&
+          distance > chromaMaxDistance
+        ) {
+          drop("distance_above_threshold");
+          return;
+        }
+
+        if (
+          candidates.some(
+            (candidate) =>
+              textSimilarity(candidate.document, doc) >= duplicateSimilarity
+          )
+        ) {
+          drop("duplicate");
+          return;
+        }
+
+        candidates.push({
+          title,
+          source,
+          document: doc,
+          distance,
+          ...(typeof metadata.media_url === "string" && {
+            mediaUrl: metadata.media_url,
+          }),
+        });
+      });
+
+      const ranked = reranker
+        ? await reranker.rerank(queries.join("\n"), candidates)
+        : candidates.map((candidate) => ({ ...candidate, score: null }));
+
+      const selected = ranked.slice(0, chromaMaxResults);
+      ranked.forEach((candidate, index) => {
+        results.push({
+          title: candidate.title,
+          distance: candidate.distance,
+          score: candidate.score,
+          kept: index < chromaMaxResults,
+          ...(index >= chromaMaxResults && { reason: "rank_cutoff" as const }),
+        });
+      });
+
+      logInfo("chroma.query.ranked", {
+        conversationId,
+        collection: vectorStore.collection,
+        store: vectorStore.name,
+        where: where ?? null,
+        reranker: reranker?.name ?? null,
+        maxDistance: chromaMaxDistance ?? null,
+        results,
+      });
+
+      const snippets: KnowledgeSnippet[] = [];
+      const perDocumentLimit = Math.max(
+        200,
+        Math.floor(chromaMaxCharacters / Math.max(1, chromaMaxResults))
+      );
+
+      selected.forEach(({ title, source, document, distance, mediaUrl }) => {
         const scoreFragment =
           typeof distance === "number"
             ? ` | score: ${distance.toFixed(4)}`
             : "";
 
-        entries.push(
-          `- (${title} | source: ${source}${scoreFragment}) ${truncate(
-            doc,
+        snippets.push({
+          kind: "retrieved",
+          entry: { title, source, ...(mediaUrl && { mediaUrl }) },
+          text: `- (${title} | source: ${source}${scoreFragment}) ${truncate(
+            document,
             perDocumentLimit
-          )}`
-        );
+          )}`,
+        });
       });
 
-      if (entries.length === 0) {
+      if (snippets.length === 0) {
         logInfo("chroma.query.empty", {
           conversationId,
-          collection: chromaCollection,
+          collection: vectorStore.collection,
+          store: vectorStore.name,
         });
         return null;
       }
 
-      const contextString = `Knowledge base context:\n${entries.join("\n")}`;
-
       logInfo("chroma.query.success", {
         conversationId,
-        collection: chromaCollection,
-        results: entries.length,
+        collection: vectorStore.collection,
+        store: vectorStore.name,
+        results: snippets.length,
       });
 
-      return {
-        entries: entriesForContext,
-        message: {
-          role: "system",
-          content: contextString,
-        },
-      };
+      return { snippets };
     } catch (error) {
       logError("chroma.query.failed", {
         conversationId,
-        collection: chromaCollection,
+        collection: vectorStore.collection,
+        store: vectorStore.name,
         error: error instanceof Error ? error.message : error,
       });
       return null;
     }
   };
 
+  const buildKnowledgeContext = async (
+    conversationId: string,
+    userMessage: string,
+    options: BuildKnowledgeContextOptions = {}
+  ): Promise<KnowledgeContext | null> => {
+    const cannedResponses = await resolveCannedResponses(
+      conversationId,
+      userMessage
+    );
+    const retrieved = await retrieveKnowledge(
+      conversationId,
+      userMessage,
+      options,
+      new Set(cannedResponses.map((response) => response.key))
+    );
+
+    return renderKnowledgeContext([
+      ...cannedResponses.map(
+        (response): KnowledgeSnippet => ({
+          kind: "canned",
+          entry: {
+            title: response.title,
+            source: response.source,
+            ...(response.mediaUrl && { mediaUrl: response.mediaUrl }),
+          },
+          text: `[${response.key}]\n${response.text}`,
+        })
+      ),
+      ...(retrieved?.snippets ?? []),
+    ]);
+  };
+
   return {
     buildKnowledgeContext,
+    getCannedResponse,
   };
 }
@@ -0,0 +1,363 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+
+export interface KnowledgeChunk {
+  id: string;
+  title: string;
+  source: string;
+  sourceFile: string;
+  text: string;
+  key?: string;
+  topic?: string;
+  language?: string;
+  mediaUrl?: string;
+}
+
+export interface ChunkOptions {
+  maxChunkCharacters?: number;
+}
+
+interface KnowledgeSection {
+  title: string;
+  source: string;
+  body: string;
+  labels: KnowledgeLabels;
+}
+
+type KnowledgeLabels = Pick<
+  KnowledgeChunk,
+  "key" | "topic" | "language" | "mediaUrl"
+>;
+
+const DEFAULT_MAX_CHUNK_CHARACTERS = 1000;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+export const supportedKnowledgeExtensions = [
+  ".md",
+  ".markdown",
+  ".json",
+  ".csv",
+] as const;
+
+export function isSupportedKnowledgeFile(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return (supportedKnowledgeExtensions as readonly string[]).includes(
+    extension
+  );
+}
+
+function defaultTitle(sourceFile: string): string {
+  return path.basename(sourceFile, path.extname(sourceFile));
+}
+
+function splitBySize(text: string, maxCharacters: number): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  const pieces: string[] = [];
+  let current = "";
+
+  const pushLongParagraph = (paragraph: string) => {
+    for (let start = 0; start < paragraph.length; start += maxCharacters) {
+      pieces.push(paragraph.slice(start, start + maxCharacters));
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > maxCharacters) {
+      if (current) {
+        pieces.push(current);
+        current = "";
+      }
+      pushLongParagraph(paragraph);
+      continue;
+    }
+
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (candidate.length > maxCharacters) {
+      pieces.push(current);
+      current = paragraph;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+function parseFrontMatter(content: string): {
+  attributes: Record<string, string>;
+  body: string;
+} {
+  const match = content.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    return { attributes: {}, body: content };
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const line of (match[1] ?? "").split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      attributes[line.slice(0, separator).trim()] = line
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+
+  return { attributes, body: content.slice(match[0].length) };
+}
+
+function parseMarkdownSections(
+  content: string,
+  sourceFile: string
+): KnowledgeSection[] {
+  const { attributes, body } = parseFrontMatter(content);
+  const source = attributes.source || sourceFile;
+  const labels = pickLabels(attributes);
+  const sections: KnowledgeSection[] = [];
+  let title = attributes.title || defaultTitle(sourceFile);
+  let lines: string[] = [];
+
+  const flush = () => {
+    const sectionBody = lines.join("\n").trim();
+    if (sectionBody) {
+      sections.push({ title, source, body: sectionBody, labels });
+    }
+    lines = [];
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading?.[1]) {
+      flush();
+      title = heading[1];
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+function pickLabels(
+  values: Record<string, string | null | undefined>
+): KnowledgeLabels {
+  return {
+    ...(values.key && { key: values.key }),
+    ...(values.topic && { topic: values.topic }),
+    ...(values.language && { language: values.language }),
+    ...(values.media_url && { mediaUrl: values.media_url }),
+  };
+}
+
+function readField(
+  record: Record<string, unknown>,
+  keys: string[]
+): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+function recordsToSections(
+  records: Array<Record<string, unknown>>,
+  sourceFile: string
+): KnowledgeSection[] {
+  return records.flatMap((record, index) => {
+    const body = readField(record, ["content", "text", "body", "answer"]);
+    if (!body) {
+      return [];
+    }
+
+    return [
+      {
+        title:
+          readField(record, ["title", "key", "question"]) ??
+          `${defaultTitle(sourceFile)}-${index + 1}`,
+        source: readField(record, ["source", "url"]) ?? sourceFile,
+        body,
+        labels: pickLabels({
+          key: readField(record, ["key"]),
+          topic: readField(record, ["topic"]),
+          language: readField(record, ["language", "lang"]),
+          media_url: readField(record, ["media_url", "mediaUrl"]),
+        }),
+      },
+    ];
+  });
+}
+
+function parseJsonSections(
+  content: string,
+  sourceFile: string
+): KnowledgeSection[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${sourceFile}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const entries =
+    parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as { entries?: unknown }).entries
+      : parsed;
+
+  if (!Array.isArray(entries)) {
+    throw new Error(
+      `Expected ${sourceFile} to contain an array or an { "entries": [] } object`
+    );
+  }
+
+  return recordsToSections(
+    entries.filter(
+      (entry): entry is Record<string, unknown> =>
+        Boolean(entry) && typeof entry === "object"
+    ),
+    sourceFile
+  );
+}
+
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((columns) => columns.some((column) => column.trim()));
+}
+
+function parseCsvSections(
+  content: string,
+  sourceFile: string
+): KnowledgeSection[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const records = rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, row[index] ?? ""])
+    )
+  );
+
+  return recordsToSections(records, sourceFile);
+}
+
+// Ids come from the section and its text rather than the chunk position, so
+// editing one section does not shift the ids (and embeddings) of the others.
+function chunkId(
+  sourceFile: string,
+  chunk: Pick<KnowledgeChunk, "title" | "key" | "text">
+): string {
+  const textHash = createHash("sha256")
+    .update(chunk.text)
+    .digest("hex")
+    .slice(0, 12);
+  return `${sourceFile}#${chunk.key ?? chunk.title}:${textHash}`;
+}
+
+export function chunkKnowledgeFile(
+  sourceFile: string,
+  content: string,
+  options: ChunkOptions = {}
+): KnowledgeChunk[] {
+  const maxChunkCharacters =
+    options.maxChunkCharacters ?? DEFAULT_MAX_CHUNK_CHARACTERS;
+  const extension = path.extname(sourceFile).toLowerCase();
+
+  const sections =
+    extension === ".json"
+      ? parseJsonSections(content, sourceFile)
+      : extension === ".csv"
+        ? parseCsvSections(content, sourceFile)
+        : parseMarkdownSections(content, sourceFile);
+
+  const seenIds = new Map<string, number>();
+  return sections
+    .flatMap((section) => {
+      const base = {
+        title: section.title,
+        source: section.source,
+        ...section.labels,
+      };
+
+      // Keyed sections are fixed responses; keep them whole and unprefixed so
+      // lookups by key return the exact text.
+      if (section.labels.key) {
+        return [{ ...base, text: section.body }];
+      }
+
+      return splitBySize(section.body, maxChunkCharacters).map((piece) => ({
+        ...base,
+        text: `${section.title}\n${piece}`,
+      }));
+    })
+    .map((chunk) => {
+      const id = chunkId(sourceFile, chunk);
+      const occurrence = (seenIds.get(id) ?? 0) + 1;
+      seenIds.set(id, occurrence);
+      return {
+        id: occurrence > 1 ? `${id}:${occurrence}` : id,
+        sourceFile,
+        ...chunk,
+      };
+    });
+}
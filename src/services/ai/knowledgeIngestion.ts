@@ -0,0 +1,232 @@
+import { createHash } from "node:crypto";
+import type { ChromaClient } from "chromadb";
+import { logger } from "../../logger.js";
+import { createChromaVectorStore } from "./chromaVectorStore.js";
+import { chunkKnowledgeFile, type KnowledgeChunk } from "./knowledgeChunker.js";
+import {
+  createOpenAIEmbeddingFunction,
+  type EmbeddingVector,
+} from "./knowledgeBase.js";
+import type { VectorMetadata, VectorStore } from "./vectorStore.js";
+
+export interface KnowledgeSourceFile {
+  path: string;
+  content: string;
+}
+
+export interface KnowledgeIngestionOptions {
+  vectorStore?: VectorStore;
+  chromaClient?: ChromaClient;
+  chromaCollection?: string;
+  embeddingModel: string;
+  openAIApiKey: string;
+  embedTexts?: (texts: string[]) => Promise<EmbeddingVector[]>;
+  batchSize?: number;
+  maxChunkCharacters?: number;
+}
+
+export interface IngestOptions {
+  dryRun?: boolean;
+  // Source-file prefix the files were read from, e.g. "workshops" when only
+  // that subdirectory was ingested. Only chunks under it are deleted.
+  root?: string;
+}
+
+export interface IngestionSummary {
+  files: number;
+  chunks: number;
+  upserted: number;
+  unchanged: number;
+  deleted: number;
+}
+
+export interface KnowledgeIngestionService {
+  ingest: (
+    files: KnowledgeSourceFile[],
+    options?: IngestOptions
+  ) => Promise<IngestionSummary>;
+}
+
+const DEFAULT_BATCH_SIZE = 64;
+const PAGE_SIZE = 500;
+
+interface IngestedChunk {
+  sourceFile: string;
+  contentHash: string | null;
+}
+
+function hashChunk(chunk: KnowledgeChunk): string {
+  return createHash("sha256")
+    .update(
+      [
+        chunk.title,
+        chunk.source,
+        chunk.key ?? "",
+        chunk.topic ?? "",
+        chunk.language ?? "",
+        chunk.mediaUrl ?? "",
+        chunk.text,
+      ].join("\n")
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function toMetadata(chunk: KnowledgeChunk): VectorMetadata {
+  return {
+    title: chunk.title,
+    source: chunk.source,
+    source_file: chunk.sourceFile,
+    content_hash: hashChunk(chunk),
+    ...(chunk.key && { key: chunk.key }),
+    ...(chunk.topic && { topic: chunk.topic }),
+    ...(chunk.language && { language: chunk.language }),
+    ...(chunk.mediaUrl && { media_url: chunk.mediaUrl }),
+  };
+}
+
+function isUnderRoot(sourceFile: string, root: string): boolean {
+  const prefix = root.replace(/\/+$/, "");
+  return (
+    !prefix || sourceFile === prefix || sourceFile.startsWith(`${prefix}/`)
+  );
+}
+
+function toBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    batches.push(items.slice(start, start + size));
+  }
+  return batches;
+}
+
+export function createKnowledgeIngestionService(
+  options: KnowledgeIngestionOptions
+): KnowledgeIngestionService {
+  const { chromaClient, chromaCollection, embeddingModel, openAIApiKey } =
+    options;
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+
+  const embeddingFunction = createOpenAIEmbeddingFunction({
+    openai_api_key: openAIApiKey,
+    model: embeddingModel,
+    ...(options.embedTexts && { embedTexts: options.embedTexts }),
+  });
+
+  const vectorStore =
+    options.vectorStore ??
+    (chromaClient && chromaCollection
+      ? createChromaVectorStore({
+          chromaClient,
+          collectionName: chromaCollection,
+          embeddingFunction,
+        })
+      : null);
+
+  if (!vectorStore) {
+    throw new Error(
+      "Knowledge ingestion requires a vector store or a Chroma client and collection"
+    );
+  }
+
+  const serviceLogger = logger.child({
+    module: "knowledge-ingestion",
+    collection: vectorStore.collection,
+    store: vectorStore.name,
+  });
+
+  const loadIngestedChunks = async (): Promise<Map<string, IngestedChunk>> => {
+    const ingested = new Map<string, IngestedChunk>();
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await vectorStore.get({ limit: PAGE_SIZE, offset });
+
+      page.ids.forEach((id, index) => {
+        const metadata = page.metadatas[index];
+        if (typeof metadata?.source_file !== "string") {
+          return;
+        }
+        ingested.set(id, {
+          sourceFile: metadata.source_file,
+          contentHash:
+            typeof metadata.content_hash === "string"
+              ? metadata.content_hash
+              : null,
+        });
+      });
+
+      if (page.ids.length < PAGE_SIZE) {
+        return ingested;
+      }
+    }
+  };
+
+  const ingest = async (
+    files: KnowledgeSourceFile[],
+    ingestOptions: IngestOptions = {}
+  ): Promise<IngestionSummary> => {
+    const chunks = files.flatMap((file) => {
+      const fileChunks = chunkKnowledgeFile(file.path, file.content, {
+        ...(options.maxChunkCharacters && {
+          maxChunkCharacters: options.maxChunkCharacters,
+        }),
+      });
+      serviceLogger.info(
+        { sourceFile: file.path, chunks: fileChunks.length },
+        "kb.ingest.file.chunked"
+      );
+      return fileChunks;
+    });
+
+    const existing = await loadIngestedChunks();
+    const changed = chunks.filter(
+      (chunk) => existing.get(chunk.id)?.contentHash !== hashChunk(chunk)
+    );
+    const currentIds = new Set(chunks.map((chunk) => chunk.id));
+    const root = ingestOptions.root ?? "";
+    const staleIds = [...existing]
+      .filter(
+        ([id, chunk]) =>
+          !currentIds.has(id) && isUnderRoot(chunk.sourceFile, root)
+      )
+      .map(([id]) => id);
+
+    const summary: IngestionSummary = {
+      files: files.length,
+      chunks: chunks.length,
+      upserted: changed.length,
+      unchanged: chunks.length - changed.length,
+      deleted: staleIds.length,
+    };
+
+    if (ingestOptions.dryRun) {
+      serviceLogger.info({ ...summary, dryRun: true }, "kb.ingest.completed");
+      return summary;
+    }
+
+    for (const batch of toBatches(changed, batchSize)) {
+      const documents = batch.map((chunk) => chunk.text);
+      const embeddings = await embeddingFunction.generate(documents);
+      await vectorStore.upsert({
+        ids: batch.map((chunk) => chunk.id),
+        documents,
+        embeddings,
+        metadatas: batch.map(toMetadata),
+      });
+      serviceLogger.info(
+        { upserted: batch.length },
+        "kb.ingest.batch.upserted"
+      );
+    }
+
+    for (const batch of toBatches(staleIds, batchSize)) {
+      await vectorStore.delete({ ids: batch });
+      serviceLogger.info({ deleted: batch.length }, "kb.ingest.batch.deleted");
+    }
+
+    serviceLogger.info(summary, "kb.ingest.completed");
+    return summary;
+  };
+
+  return { ingest };
+}
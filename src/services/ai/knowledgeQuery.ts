@@ -0,0 +1,141 @@
+import type OpenAI from "openai";
+import { z } from "zod";
+import { logger } from "../../logger.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export interface KnowledgeQueryBuilder {
+  name: string;
+  buildQueries: (
+    userMessage: string,
+    history: ChatMessage[]
+  ) => Promise<string[]>;
+}
+
+export interface HistoryWindowQueryBuilderOptions {
+  userTurns?: number;
+}
+
+export interface LlmQueryRewriterOptions {
+  client: OpenAI;
+  model: string;
+  maxQueries?: number;
+  historyMessages?: number;
+  fallback?: KnowledgeQueryBuilder;
+}
+
+const rewrittenQueriesSchema = z.object({
+  queries: z.array(z.string().trim().min(1)).min(1),
+});
+
+const rewriteResponseFormat: OpenAI.ResponseFormatJSONSchema = {
+  type: "json_schema",
+  json_schema: {
+    name: "knowledge_queries",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        queries: { type: "array", items: { type: "string" } },
+      },
+      required: ["queries"],
+      additionalProperties: false,
+    },
+  },
+};
+
+function messageText(message: ChatMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : JSON.stringify(message.content ?? "");
+}
+
+function recentUserTurns(
+  history: ChatMessage[],
+  userMessage: string,
+  count: number
+): string[] {
+  const turns = history
+    .filter((message) => message.role === "user")
+    .map(messageText);
+
+  if (turns[turns.length - 1] !== userMessage) {
+    turns.push(userMessage);
+  }
+
+  return turns.slice(-count);
+}
+
+export function createHistoryWindowQueryBuilder(
+  options: HistoryWindowQueryBuilderOptions = {}
+): KnowledgeQueryBuilder {
+  const userTurns = Math.max(1, options.userTurns ?? 3);
+
+  return {
+    name: "history-window",
+    buildQueries: async (userMessage, history) => {
+      const window = recentUserTurns(history, userMessage, userTurns);
+      return window.length > 1
+        ? [userMessage, window.join("\n")]
+        : [userMessage];
+    },
+  };
+}
+
+export function createLlmQueryRewriter(
+  options: LlmQueryRewriterOptions
+): KnowledgeQueryBuilder {
+  const { client, model } = options;
+  const maxQueries = Math.max(1, options.maxQueries ?? 2);
+  const historyMessages = Math.max(1, options.historyMessages ?? 6);
+  const fallback = options.fallback ?? createHistoryWindowQueryBuilder();
+  const rewriterLogger = logger.child({ module: "knowledge-query-rewriter" });
+
+  const systemPrompt = [
+    "You turn the latest customer message of a WhatsApp conversation with a ceramics studio into standalone search queries for the studio knowledge base.",
+    "Resolve references to earlier turns (number of participants, workshop type, dates) so each query makes sense on its own.",
+    `Return between 1 and ${maxQueries} short queries in the customer's language, most important first.`,
+  ].join("\n");
+
+  return {
+    name: "llm",
+    buildQueries: async (userMessage, history) => {
+      const transcript = history
+        .filter(
+          (message) => message.role === "user" || message.role === "assistant"
+        )
+        .slice(-historyMessages)
+        .map((message) => `${message.role}: ${messageText(message)}`)
+        .join("\n");
+
+      try {
+        const completion = await client.chat.completions.create({
+          model,
+          messages: [
+            { role: "system", content: systemPrompt },
+            {
+              role: "user",
+              content: `${transcript}\n\nLatest message: ${userMessage}`,
+            },
+          ],
+          response_format: rewriteResponseFormat,
+        });
+
+        const parsed = rewrittenQueriesSchema.safeParse(
+          JSON.parse(completion.choices[0]?.message?.content ?? "")
+        );
+        if (!parsed.success) {
+          throw new Error("Rewritten queries did not match the schema");
+        }
+
+        return parsed.data.queries.slice(0, maxQueries);
+      } catch (error) {
+        rewriterLogger.warn(
+          { error: error instanceof Error ? error.message : error },
+          "knowledge.query.rewrite.fallback"
+        );
+        return fallback.buildQueries(userMessage, history);
+      }
+    },
+  };
+}
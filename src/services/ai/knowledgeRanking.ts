@@ -0,0 +1,117 @@
+export interface KnowledgeCandidate {
+  title: string;
+  source: string;
+  document: string;
+  distance: number | null;
+  mediaUrl?: string;
+}
+
+export interface RankedKnowledgeCandidate extends KnowledgeCandidate {
+  score: number;
+}
+
+export interface KnowledgeReranker {
+  name: string;
+  rerank: (
+    query: string,
+    candidates: KnowledgeCandidate[]
+  ) => Promise<RankedKnowledgeCandidate[]> | RankedKnowledgeCandidate[];
+}
+
+export interface Bm25RerankerOptions {
+  k1?: number;
+  b?: number;
+  lexicalWeight?: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function vectorSimilarity(distance: number | null): number {
+  return distance === null ? 0 : 1 / (1 + Math.max(0, distance));
+}
+
+export function textSimilarity(left: string, right: string): number {
+  const leftTokens = new Set(tokenize(left));
+  const rightTokens = new Set(tokenize(right));
+  if (leftTokens.size === 0 && rightTokens.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  leftTokens.forEach((token) => {
+    if (rightTokens.has(token)) {
+      shared += 1;
+    }
+  });
+
+  return shared / (leftTokens.size + rightTokens.size - shared);
+}
+
+export function createBm25Reranker(
+  options: Bm25RerankerOptions = {}
+): KnowledgeReranker {
+  const k1 = options.k1 ?? 1.2;
+  const b = options.b ?? 0.75;
+  const lexicalWeight = Math.min(1, Math.max(0, options.lexicalWeight ?? 0.5));
+
+  const rerank = (
+    query: string,
+    candidates: KnowledgeCandidate[]
+  ): RankedKnowledgeCandidate[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documents = candidates.map((candidate) =>
+      tokenize(`${candidate.title} ${candidate.document}`)
+    );
+    const averageLength =
+      documents.reduce((total, terms) => total + terms.length, 0) /
+      Math.max(1, documents.length);
+
+    const documentFrequency = new Map<string, number>();
+    documents.forEach((terms) => {
+      new Set(terms).forEach((term) => {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      });
+    });
+
+    const bm25Scores = documents.map((terms) => {
+      const termFrequency = new Map<string, number>();
+      terms.forEach((term) => {
+        termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+      });
+
+      return queryTerms.reduce((score, term) => {
+        const frequency = termFrequency.get(term) ?? 0;
+        if (frequency === 0) {
+          return score;
+        }
+        const containing = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(
+          1 + (documents.length - containing + 0.5) / (containing + 0.5)
+        );
+        const lengthNorm =
+          1 - b + b * (terms.length / Math.max(1, averageLength));
+        return (
+          score + (idf * (frequency * (k1 + 1))) / (frequency + k1 * lengthNorm)
+        );
+      }, 0);
+    });
+
+    const maxBm25 = Math.max(0, ...bm25Scores);
+
+    return candidates
+      .map((candidate, index) => {
+        const lexical = maxBm25 > 0 ? (bm25Scores[index] ?? 0) / maxBm25 : 0;
+        return {
+          ...candidate,
+          score:
+            lexicalWeight * lexical +
+            (1 - lexicalWeight) * vectorSimilarity(candidate.distance),
+        };
+      })
+      .sort((left, right) => right.score - left.score);
+  };
+
+  return { name: "bm25", rerank };
+}
@@ -0,0 +1,195 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger } from "../../logger.js";
+import {
+  matchesWhere,
+  type VectorMetadata,
+  type VectorStore,
+} from "./vectorStore.js";
+
+const DEFAULT_COLLECTION_NAME = "local";
+
+export interface LocalVectorStoreOptions {
+  // Only labels the file and log lines; defaults to "local".
+  collectionName?: string;
+  filePath?: string;
+}
+
+interface LocalVectorRecord {
+  id: string;
+  document: string;
+  metadata: VectorMetadata;
+  embedding: number[];
+}
+
+interface LocalVectorFile {
+  collection: string;
+  records: LocalVectorRecord[];
+}
+
+export function cosineDistance(left: number[], right: number[]): number {
+  if (left.length !== right.length) {
+    throw new Error(
+      `Embedding dimension mismatch: ${left.length} vs ${right.length}`
+    );
+  }
+
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  left.forEach((value, index) => {
+    const other = right[index] ?? 0;
+    dot += value * other;
+    leftNorm += value * value;
+    rightNorm += other * other;
+  });
+
+  if (leftNorm === 0 || rightNorm === 0) {
+    return 1;
+  }
+  return 1 - dot / Math.sqrt(leftNorm * rightNorm);
+}
+
+export function createLocalVectorStore(
+  options: LocalVectorStoreOptions
+): VectorStore {
+  const { filePath } = options;
+  const collectionName = options.collectionName ?? DEFAULT_COLLECTION_NAME;
+  const storeLogger = logger.child({
+    module: "local-vector-store",
+    collection: collectionName,
+    ...(filePath && { filePath }),
+  });
+
+  const records = new Map<string, LocalVectorRecord>();
+  let loaded: Promise<void> | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+  let writeSequence = 0;
+
+  const load = async () => {
+    if (!filePath) {
+      return;
+    }
+
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        storeLogger.info("vector.store.local.empty");
+        return;
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw) as LocalVectorFile;
+    (parsed.records ?? []).forEach((record) => records.set(record.id, record));
+    storeLogger.info({ records: records.size }, "vector.store.local.loaded");
+  };
+
+  const ensureLoaded = () => {
+    if (!loaded) {
+      loaded = load().catch((error) => {
+        loaded = null;
+        storeLogger.error(
+          { error: error instanceof Error ? error.message : error },
+          "vector.store.local.load.failed"
+        );
+        return Promise.reject(error);
+      });
+    }
+    return loaded;
+  };
+
+  const persist = () => {
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    const snapshot: LocalVectorFile = {
+      collection: collectionName,
+      records: [...records.values()],
+    };
+    writeChain = writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        const temporaryPath = `${filePath}.${process.pid}-${writeSequence++}.tmp`;
+        await writeFile(temporaryPath, JSON.stringify(snapshot), "utf8");
+        await rename(temporaryPath, filePath);
+      });
+    return writeChain;
+  };
+
+  return {
+    name: "local",
+    collection: collectionName,
+    query: async ({ queryEmbeddings, nResults, where }) => {
+      await ensureLoaded();
+      const candidates = [...records.values()].filter((record) =>
+        matchesWhere(record.metadata, where)
+      );
+
+      const ranked = queryEmbeddings.map((queryEmbedding) =>
+        candidates
+          .map((record) => ({
+            record,
+            distance: cosineDistance(queryEmbedding, record.embedding),
+          }))
+          .sort((left, right) => left.distance - right.distance)
+          .slice(0, Math.max(0, nResults))
+      );
+
+      return {
+        ids: ranked.map((rows) => rows.map(({ record }) => record.id)),
+        documents: ranked.map((rows) =>
+          rows.map(({ record }) => record.document)
+        ),
+        metadatas: ranked.map((rows) =>
+          rows.map(({ record }) => record.metadata)
+        ),
+        distances: ranked.map((rows) => rows.map(({ distance }) => distance)),
+      };
+    },
+    get: async ({ ids, where, limit, offset = 0 }) => {
+      await ensureLoaded();
+      const selected = (
+        ids
+          ? ids.flatMap((id) => {
+              const record = records.get(id);
+              return record ? [record] : [];
+            })
+          : [...records.values()]
+      )
+        .filter((record) => matchesWhere(record.metadata, where))
+        .slice(offset, limit === undefined ? undefined : offset + limit);
+
+      return {
+        ids: selected.map((record) => record.id),
+        documents: selected.map((record) => record.document),
+        metadatas: selected.map((record) => record.metadata),
+      };
+    },
+    upsert: async ({ ids, documents, metadatas, embeddings }) => {
+      await ensureLoaded();
+      ids.forEach((id, index) => {
+        const embedding = embeddings[index];
+        if (!embedding) {
+          throw new Error(`Missing embedding for record ${id}`);
+        }
+        records.set(id, {
+          id,
+          document: documents[index] ?? "",
+          metadata: metadatas[index] ?? {},
+          embedding,
+        });
+      });
+      await persist();
+    },
+    delete: async ({ ids }) => {
+      await ensureLoaded();
+      ids.forEach((id) => records.delete(id));
+      await persist();
+    },
+  };
+}
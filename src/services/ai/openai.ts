@@ -1,19 +1,42 @@
 import OpenAI from "openai";
-import { type Tiktoken } from "tiktoken";
 import { logger } from "../../logger.js";
 import type { ChromaClient } from "chromadb";
 import {
   createConversationHistoryService,
   type ConversationHistoryService,
 } from "./conversationHistory.js";
+import type {
+  ConversationStore,
+  ConversationSummary,
+} from "./conversationStore.js";
 import {
   createKnowledgeBaseService,
   type KnowledgeBaseService,
   type EmbeddingVector,
   type KnowledgeContext,
   type KnowledgeEntry,
+  type KnowledgeFilter,
 } from "./knowledgeBase.js";
-import { normalizeAssistantReply } from "../../utils/contentNormalizer.js";
+import {
+  normalizeAssistantReply,
+  selectCitedMedia,
+} from "../../utils/contentNormalizer.js";
+import type { AssistantTool } from "./assistantTools.js";
+import type { ConversationSummarizer } from "./conversationCompaction.js";
+import type { EmbeddingCache } from "./embeddingCache.js";
+import type { KnowledgeQueryBuilder } from "./knowledgeQuery.js";
+import type { KnowledgeReranker } from "./knowledgeRanking.js";
+import {
+  buildBudgetedRequest,
+  defaultTokenBudgetOptions,
+  planOutputTokens,
+  planTokenBudget,
+  type BudgetedRequest,
+  type TokenBudgetOptions,
+  type TokenBudgetReport,
+} from "./tokenBudget.js";
+import { REPLY_PRIMING_TOKENS, type ChatTokenizer } from "./tokenCounting.js";
+import type { VectorStore } from "./vectorStore.js";
 
 type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
 
@@ -24,18 +47,39 @@ export interface OpenAIServiceOptions {
   systemPrompt: string;
   embeddingModel: string;
   openAIApiKey: string;
-  tokenizer?: Pick<Tiktoken, "encode">;
-  chromaClient: ChromaClient;
-  chromaCollection: string;
+  tokenizer?: ChatTokenizer;
+  vectorStore?: VectorStore;
+  chromaClient?: ChromaClient;
+  chromaCollection?: string;
   chromaMaxResults?: number;
   chromaMaxCharacters?: number;
+  chromaMaxDistance?: number;
+  knowledgeReranker?: KnowledgeReranker;
+  knowledgeQueryBuilder?: KnowledgeQueryBuilder;
+  knowledgeFilter?: KnowledgeFilter;
+  embeddingCache?: EmbeddingCache;
   embedTexts?: (texts: string[]) => Promise<EmbeddingVector[]>;
   conversationHistoryService?: ConversationHistoryService;
+  conversationStore?: ConversationStore;
+  conversationSummarizer?: ConversationSummarizer;
   knowledgeBaseService?: KnowledgeBaseService;
+  tools?: AssistantTool[];
+  maxToolIterations?: number;
+  tokenBudget?: TokenBudgetOptions;
+  maxOutputTokens?: number;
+}
+
+export interface ImageInput {
+  url: string;
+}
+
+export interface GenerateReplyOptions {
+  images?: ImageInput[];
 }
 
 export interface GenerateReplyResult {
   response: string;
+  mediaUrls?: string[];
   tokens: {
     totalTokens: number;
     usageTokens: number | null;
@@ -44,16 +88,26 @@ export interface GenerateReplyResult {
     knowledgeTokens: number;
     userTokens: number;
     durationMs: number;
+    budget: TokenBudgetReport;
   };
 }
 
 export interface OpenAIService {
   generateReply: (
     conversationId: string,
-    message: string
+    message: string,
+    options?: GenerateReplyOptions
   ) => Promise<GenerateReplyResult>;
-  resetConversation: (conversationId: string) => void;
-  getConversationHistory: (conversationId: string) => ChatMessage[];
+  resetConversation: (conversationId: string) => Promise<void>;
+  getConversationHistory: (conversationId: string) => Promise<ChatMessage[]>;
+  findConversationHistory: (
+    conversationId: string
+  ) => Promise<ChatMessage[] | null>;
+  listConversations: () => Promise<ConversationSummary[]>;
+  recordMessage: (
+    conversationId: string,
+    message: ChatMessage
+  ) => Promise<void>;
 }
 
 export function createOpenAIService(
@@ -65,12 +119,15 @@ export function createOpenAIService(
     tokenLimit,
     systemPrompt,
     openAIApiKey,
-    chromaClient,
-    chromaCollection,
     embeddingModel,
   } = options;
 
   const serviceLogger = logger.child({ module: "openai-service", model });
+  const tools = options.tools ?? [];
+  const tokenBudget = options.tokenBudget ?? defaultTokenBudgetOptions;
+  const outputTokens =
+    options.maxOutputTokens ?? planOutputTokens(tokenLimit, tokenBudget);
+  const maxToolIterations = options.maxToolIterations ?? 3;
 
   const conversationHistory =
     options.conversationHistoryService ??
@@ -79,23 +136,45 @@ export function createOpenAIService(
       tokenLimit,
       systemPrompt,
       ...(options.tokenizer && { tokenizer: options.tokenizer }),
+      ...(options.conversationStore && { store: options.conversationStore }),
+      ...(options.conversationSummarizer && {
+        summarizer: options.conversationSummarizer,
+      }),
     });
 
   const knowledgeBase =
     options.knowledgeBaseService ??
     createKnowledgeBaseService({
-      chromaClient,
-      chromaCollection,
       embeddingModel,
       openAIApiKey,
       openaiClient: client,
+      ...(options.vectorStore && { vectorStore: options.vectorStore }),
+      ...(options.chromaClient && { chromaClient: options.chromaClient }),
+      ...(options.chromaCollection && {
+        chromaCollection: options.chromaCollection,
+      }),
       ...(options.chromaMaxResults && {
         chromaMaxResults: options.chromaMaxResults,
       }),
       ...(options.chromaMaxCharacters && {
         chromaMaxCharacters: options.chromaMaxCharacters,
       }),
+      ...(options.chromaMaxDistance !== undefined && {
+        chromaMaxDistance: options.chromaMaxDistance,
+      }),
+      ...(options.knowledgeReranker && {
+        reranker: options.knowledgeReranker,
+      }),
+      ...(options.knowledgeQueryBuilder && {
+        queryBuilder: options.knowledgeQueryBuilder,
+      }),
+      ...(options.knowledgeFilter && {
+        defaultFilter: options.knowledgeFilter,
+      }),
       ...(options.embedTexts && { embedTexts: options.embedTexts }),
+      ...(options.embeddingCache && {
+        embeddingCache: options.embeddingCache,
+      }),
     });
 
   const logInfo = (message: string, meta?: Record<string, unknown>) => {
@@ -110,46 +189,112 @@ export function createOpenAIService(
     serviceLogger.warn(meta ?? {}, message);
   };
 
-  function addUserMessage(
+  const systemPromptTokens = conversationHistory.countMessageTokens({
+    role: "system",
+    content: systemPrompt,
+  });
+  const startupPlan = planTokenBudget(
+    {
+      limit: tokenLimit,
+      systemTokens: systemPromptTokens,
+      historyTokens: tokenBudget.minHistoryTokens,
+      outputTokens,
+      replyPrimingTokens: REPLY_PRIMING_TOKENS,
+    },
+    tokenBudget
+  );
+  if (startupPlan.knowledge + startupPlan.history === 0) {
+    throw new Error(
+      `System prompt needs ${systemPromptTokens} tokens, which leaves no room in the ${tokenLimit} token context limit after ${outputTokens} reserved output tokens`
+    );
+  }
+  if (startupPlan.history < tokenBudget.minHistoryTokens) {
+    logWarn("openai.budget.history.starved", {
+      tokenLimit,
+      systemPromptTokens,
+      outputTokens,
+      minHistoryTokens: tokenBudget.minHistoryTokens,
+    });
+  }
+
+  async function addUserMessage(
     conversationId: string,
     message: string
-  ): ChatMessage[] {
-    const messages = conversationHistory.getMessages(conversationId);
+  ): Promise<ChatMessage[]> {
+    const messages = await conversationHistory.getMessages(conversationId);
     const userMessage: ChatMessage = { role: "user", content: message };
-    conversationHistory.addMessage(conversationId, userMessage);
+    await conversationHistory.addMessage(conversationId, userMessage);
     return messages;
   }
 
-  function applyKnowledgeContext(
-    requestMessages: ChatMessage[],
+  function applyTokenBudget(
+    conversationId: string,
+    history: ChatMessage[],
     knowledgeContext: KnowledgeContext | null
-  ): { messages: ChatMessage[]; applied: boolean } {
-    if (!knowledgeContext) {
-      return { messages: requestMessages, applied: false };
-    }
-
-    const messagesWithKnowledge = [...requestMessages];
-    messagesWithKnowledge.splice(
-      messagesWithKnowledge.length - 1,
-      0,
-      knowledgeContext.message
-    );
-
-    const exceedsTokenLimit =
-      conversationHistory.countTokens(messagesWithKnowledge) > tokenLimit;
+  ): BudgetedRequest {
+    const budgeted = buildBudgetedRequest({
+      history,
+      knowledgeContext,
+      limit: tokenLimit,
+      outputTokens,
+      options: tokenBudget,
+      countMessageTokens: conversationHistory.countMessageTokens,
+      replyPrimingTokens: REPLY_PRIMING_TOKENS,
+    });
 
-    if (exceedsTokenLimit) {
-      const index = messagesWithKnowledge.indexOf(knowledgeContext.message);
-      if (index >= 0) {
-        messagesWithKnowledge.splice(index, 1);
-      }
+    if (knowledgeContext && !budgeted.knowledgeContext) {
       logWarn("chroma.context.dropped", {
+        conversationId,
         reason: "token_limit",
+        knowledgeBudget: budgeted.planned.knowledge,
+      });
+    } else if (budgeted.droppedSnippets > 0) {
+      logInfo("knowledge.context.trimmed", {
+        conversationId,
+        kept: budgeted.knowledgeContext?.snippets.length ?? 0,
+        dropped: budgeted.droppedSnippets,
+        knowledgeBudget: budgeted.planned.knowledge,
       });
-      return { messages: messagesWithKnowledge, applied: false };
     }
 
-    return { messages: messagesWithKnowledge, applied: true };
+    if (budgeted.actual.system > budgeted.planned.system) {
+      logWarn("openai.budget.system.exceeded", {
+        conversationId,
+        planned: budgeted.planned.system,
+        actual: budgeted.actual.system,
+      });
+    }
+
+    return budgeted;
+  }
+
+  // Images are only sent with the turn they arrived in; history keeps the
+  // text placeholder so stored conversations stay small.
+  function attachImages(
+    requestMessages: ChatMessage[],
+    images: ImageInput[]
+  ): ChatMessage[] {
+    const lastMessage = requestMessages[requestMessages.length - 1];
+    if (images.length === 0 || lastMessage?.role !== "user") {
+      return requestMessages;
+    }
+
+    const text =
+      typeof lastMessage.content === "string" ? lastMessage.content : "";
+
+    return [
+      ...requestMessages.slice(0, -1),
+      {
+        role: "user",
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...images.map((image) => ({
+            type: "image_url" as const,
+            image_url: { url: image.url, detail: "low" as const },
+          })),
+        ],
+      },
+    ];
   }
 
   function calculateTokenBreakdown(
@@ -165,14 +310,12 @@ export function createOpenAIService(
     const totalRequestTokens = conversationHistory.countTokens(requestMessages);
     const knowledgeTokens =
       knowledgeApplied && knowledgeContext
-        ? conversationHistory.countTokens([knowledgeContext.message])
+        ? conversationHistory.countMessageTokens(knowledgeContext.message)
         : 0;
-    const userTokens = conversationHistory.countTokens([
-      requestMessages[requestMessages.length - 1] ?? {
-        role: "user",
-        content: "",
-      },
-    ]);
+    const lastMessage = requestMessages[requestMessages.length - 1];
+    const userTokens = lastMessage
+      ? conversationHistory.countMessageTokens(lastMessage)
+      : 0;
     const conversationTokens = Math.max(
       0,
       totalRequestTokens - knowledgeTokens - userTokens
@@ -188,12 +331,18 @@ export function createOpenAIService(
 
   async function callOpenAI(
     requestMessages: ChatMessage[],
-    conversationId: string
+    conversationId: string,
+    allowToolCalls: boolean
   ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
     try {
       return await client.chat.completions.create({
         model,
         messages: requestMessages,
+        max_tokens: outputTokens,
+        ...(tools.length > 0 && {
+          tools: tools.map((tool) => tool.definition),
+          tool_choice: allowToolCalls ? "auto" : "none",
+        }),
       });
     } catch (error) {
       logError("openai.request.failed", {
@@ -204,6 +353,108 @@ export function createOpenAIService(
     }
   }
 
+  async function executeToolCall(
+    toolCall: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+    conversationId: string
+  ): Promise<string> {
+    if (toolCall.type !== "function") {
+      return JSON.stringify({ status: "error", error: "Unsupported tool" });
+    }
+
+    const tool = tools.find(
+      (candidate) =>
+        candidate.definition.function.name === toolCall.function.name
+    );
+
+    if (!tool) {
+      logWarn("openai.tool.unknown", {
+        conversationId,
+        tool: toolCall.function.name,
+      });
+      return JSON.stringify({ status: "error", error: "Unknown tool" });
+    }
+
+    try {
+      const result = await tool.execute(
+        conversationId,
+        toolCall.function.arguments
+      );
+      logInfo("openai.tool.executed", {
+        conversationId,
+        tool: toolCall.function.name,
+      });
+      return result;
+    } catch (error) {
+      logError("openai.tool.failed", {
+        conversationId,
+        tool: toolCall.function.name,
+        error: error instanceof Error ? error.message : error,
+      });
+      return JSON.stringify({
+        status: "error",
+        error: "Tool execution failed",
+      });
+    }
+  }
+
+  async function runCompletion(
+    requestMessages: ChatMessage[],
+    conversationId: string
+  ): Promise<{
+    response: OpenAI.Chat.Completions.ChatCompletion;
+    usageTokens: number | null;
+    completionTokens: number | null;
+  }> {
+    const messages = [...requestMessages];
+    let usageTokens: number | null = null;
+    let completionTokens: number | null = null;
+
+    for (let iteration = 0; ; iteration += 1) {
+      const allowToolCalls = iteration < maxToolIterations;
+      const response = await callOpenAI(
+        messages,
+        conversationId,
+        allowToolCalls
+      );
+
+      if (typeof response.usage?.total_tokens === "number") {
+        usageTokens = (usageTokens ?? 0) + response.usage.total_tokens;
+      }
+      if (typeof response.usage?.completion_tokens === "number") {
+        completionTokens =
+          (completionTokens ?? 0) + response.usage.completion_tokens;
+      }
+      if (response.choices?.[0]?.finish_reason === "length") {
+        logWarn("openai.reply.truncated", {
+          conversationId,
+          completionTokens: response.usage?.completion_tokens ?? null,
+          outputTokens,
+        });
+      }
+
+      const responseMessage = response.choices?.[0]?.message;
+      const toolCalls = responseMessage?.tool_calls ?? [];
+
+      if (!responseMessage || toolCalls.length === 0 || !allowToolCalls) {
+        return { response, usageTokens, completionTokens };
+      }
+
+      messages.push({
+        role: "assistant",
+        content: responseMessage.content,
+        tool_calls: toolCalls,
+      });
+
+      for (const toolCall of toolCalls) {
+        messages.push({
+          role: "tool",
+          tool_call_id: toolCall.id,
+          content: await executeToolCall(toolCall, conversationId),
+        });
+      }
+    }
+  }
+
   function extractResponseMessage(
     response: OpenAI.Chat.Completions.ChatCompletion,
     conversationId: string
@@ -219,11 +470,11 @@ export function createOpenAIService(
     return responseMessage;
   }
 
-  function saveAssistantResponse(
+  async function saveAssistantResponse(
     conversationId: string,
     responseMessage: OpenAI.Chat.Completions.ChatCompletionMessage,
     knowledgeEntries: KnowledgeEntry[]
-  ): void {
+  ): Promise<void> {
     if (!responseMessage.content) {
       throw new Error("Response message content is null");
     }
@@ -232,37 +483,42 @@ export function createOpenAIService(
       knowledgeEntries
     );
     const enrichedResponseMessage: ChatMessage = {
-      ...responseMessage,
+      role: "assistant",
       content: normalizedContent,
     };
-    conversationHistory.addMessage(conversationId, enrichedResponseMessage);
+    await conversationHistory.addMessage(
+      conversationId,
+      enrichedResponseMessage
+    );
   }
 
   const generateReply = async (
     conversationId: string,
-    message: string
+    message: string,
+    options: GenerateReplyOptions = {}
   ): Promise<GenerateReplyResult> => {
-    const messages = addUserMessage(conversationId, message);
-    const trimmedBeforeCall = conversationHistory.trimContext(messages);
+    const messages = await addUserMessage(conversationId, message);
+    const trimmedBeforeCall =
+      await conversationHistory.trimConversation(conversationId);
 
-    const requestMessages = [...messages];
-    const knowledgeContext = await knowledgeBase.buildKnowledgeContext(
+    const retrievedKnowledge = await knowledgeBase.buildKnowledgeContext(
       conversationId,
-      message
+      message,
+      { history: messages }
     );
-    const knowledgeEntries = knowledgeContext?.entries ?? [];
-
-    const { messages: finalRequestMessages, applied: knowledgeApplied } =
-      applyKnowledgeContext(requestMessages, knowledgeContext);
 
-    const trimmedRequest =
-      conversationHistory.trimContext(finalRequestMessages);
-
-    const verifiedKnowledgeApplied = Boolean(
-      knowledgeApplied &&
-        knowledgeContext &&
-        finalRequestMessages.includes(knowledgeContext.message)
+    const budgeted = applyTokenBudget(
+      conversationId,
+      [...messages],
+      retrievedKnowledge
     );
+    const finalRequestMessages = budgeted.messages;
+    const knowledgeContext = budgeted.knowledgeContext;
+    // Links in the reply are filled from everything retrieved, including
+    // snippets the budget left out of the request.
+    const knowledgeEntries = retrievedKnowledge?.entries ?? [];
+    const trimmedRequest = budgeted.droppedMessages > 0;
+    const verifiedKnowledgeApplied = Boolean(knowledgeContext);
 
     const tokenBreakdown = calculateTokenBreakdown(
       finalRequestMessages,
@@ -277,20 +533,38 @@ export function createOpenAIService(
       knowledgeTokens: tokenBreakdown.knowledgeTokens,
       userTokens: tokenBreakdown.userTokens,
       tokenLimit,
+      planned: budgeted.planned,
+      actual: budgeted.actual,
     });
 
     const startedAt = Date.now();
-    const response = await callOpenAI(finalRequestMessages, conversationId);
+    const images = options.images ?? [];
+    if (images.length > 0) {
+      logInfo("openai.request.images", {
+        conversationId,
+        images: images.length,
+      });
+    }
+
+    const { response, usageTokens, completionTokens } = await runCompletion(
+      attachImages(finalRequestMessages, images),
+      conversationId
+    );
     const responseMessage = extractResponseMessage(response, conversationId);
 
-    saveAssistantResponse(conversationId, responseMessage, knowledgeEntries);
-    const trimmedAfterCall = conversationHistory.trimContext(messages);
+    await saveAssistantResponse(
+      conversationId,
+      responseMessage,
+      knowledgeEntries
+    );
+    const trimmedAfterCall =
+      await conversationHistory.trimConversation(conversationId);
 
     const payload: Record<string, unknown> = {
       conversationId,
       totalTokens: conversationHistory.countTokens(messages),
       durationMs: Date.now() - startedAt,
-      usageTokens: response.usage?.total_tokens ?? null,
+      usageTokens,
       trimmed: trimmedBeforeCall || trimmedAfterCall || trimmedRequest,
       knowledgeApplied: verifiedKnowledgeApplied,
       requestTokens: tokenBreakdown.totalRequestTokens,
@@ -309,32 +583,68 @@ export function createOpenAIService(
       responseMessage.content,
       knowledgeEntries
     );
+    const mediaUrls = selectCitedMedia(normalizedResponse, knowledgeEntries);
+    if (mediaUrls.length > 0) {
+      logInfo("openai.reply.media", { conversationId, mediaUrls });
+    }
 
     return {
       response: normalizedResponse,
+      ...(mediaUrls.length > 0 && { mediaUrls }),
       tokens: {
         totalTokens: conversationHistory.countTokens(messages),
-        usageTokens: response.usage?.total_tokens ?? null,
+        usageTokens,
         requestTokens: tokenBreakdown.totalRequestTokens,
         conversationTokens: tokenBreakdown.conversationTokens,
         knowledgeTokens: tokenBreakdown.knowledgeTokens,
         userTokens: tokenBreakdown.userTokens,
         durationMs: Date.now() - startedAt,
+        budget: {
+          limit: tokenLimit,
+          planned: budgeted.planned,
+          actual: { ...budgeted.actual, output: completionTokens },
+        },
       },
     };
   };
 
-  const resetConversation = (conversationId: string) => {
-    conversationHistory.resetConversation(conversationId);
+  const resetConversation = async (conversationId: string) => {
+    await conversationHistory.resetConversation(conversationId);
   };
 
-  const getConversationHistory = (conversationId: string): ChatMessage[] => {
+  const getConversationHistory = async (
+    conversationId: string
+  ): Promise<ChatMessage[]> => {
     return conversationHistory.getMessages(conversationId);
   };
 
+  const findConversationHistory = async (
+    conversationId: string
+  ): Promise<ChatMessage[] | null> => {
+    return conversationHistory.findMessages(conversationId);
+  };
+
+  const listConversations = async (): Promise<ConversationSummary[]> => {
+    const conversations = await conversationHistory.listConversations();
+    return [...conversations].sort((a, b) =>
+      b.lastActivityAt.localeCompare(a.lastActivityAt)
+    );
+  };
+
+  const recordMessage = async (
+    conversationId: string,
+    message: ChatMessage
+  ): Promise<void> => {
+    await conversationHistory.addMessage(conversationId, message);
+    await conversationHistory.trimConversation(conversationId);
+  };
+
   return {
     generateReply,
     resetConversation,
     getConversationHistory,
+    findConversationHistory,
+    listConversations,
+    recordMessage,
   };
 }
@@ -0,0 +1,184 @@
+import type OpenAI from "openai";
+import { isSummaryMessage } from "./conversationCompaction.js";
+import {
+  trimKnowledgeContext,
+  type KnowledgeContext,
+} from "./knowledgeBase.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export interface TokenAllocation {
+  system: number;
+  knowledge: number;
+  history: number;
+  output: number;
+}
+
+export interface TokenBudgetOptions {
+  // Shares of the context limit; together they must not exceed 1.
+  systemShare: number;
+  knowledgeShare: number;
+  historyShare: number;
+  outputShare: number;
+  // History that knowledge can never claim, so follow-up questions keep the
+  // turns they refer to.
+  minHistoryTokens: number;
+}
+
+export interface TokenBudgetReport {
+  limit: number;
+  planned: TokenAllocation;
+  actual: Omit<TokenAllocation, "output"> & { output: number | null };
+}
+
+export const defaultTokenBudgetOptions: TokenBudgetOptions = {
+  systemShare: 0.3,
+  knowledgeShare: 0.25,
+  historyShare: 0.25,
+  outputShare: 0.2,
+  minHistoryTokens: 150,
+};
+
+export interface BudgetedRequest {
+  messages: ChatMessage[];
+  knowledgeContext: KnowledgeContext | null;
+  droppedSnippets: number;
+  droppedMessages: number;
+  planned: TokenAllocation;
+  actual: Omit<TokenAllocation, "output">;
+}
+
+export interface TokenBudgetInput {
+  limit: number;
+  systemTokens: number;
+  historyTokens: number;
+  outputTokens: number;
+  replyPrimingTokens: number;
+}
+
+export interface BudgetedRequestInput {
+  history: ChatMessage[];
+  knowledgeContext: KnowledgeContext | null;
+  limit: number;
+  outputTokens: number;
+  options: TokenBudgetOptions;
+  countMessageTokens: (message: ChatMessage) => number;
+  replyPrimingTokens: number;
+}
+
+export function planOutputTokens(
+  limit: number,
+  options: Pick<TokenBudgetOptions, "outputShare">
+): number {
+  return Math.max(1, Math.floor(limit * options.outputShare));
+}
+
+// The system prompt is always sent, so it is measured rather than capped: it
+// is taken out of the system, knowledge and history shares together, and the
+// rest is split between knowledge and history by their shares. Whichever of
+// the two needs less leaves its room to the other.
+export function planTokenBudget(
+  input: TokenBudgetInput,
+  options: TokenBudgetOptions
+): TokenAllocation {
+  const { systemShare, knowledgeShare, historyShare } = options;
+  const promptBudget = Math.min(
+    Math.max(0, input.limit - input.outputTokens - input.replyPrimingTokens),
+    Math.floor(input.limit * (systemShare + knowledgeShare + historyShare))
+  );
+  const available = Math.max(0, promptBudget - input.systemTokens);
+  const knowledgeRatio =
+    knowledgeShare + historyShare > 0
+      ? knowledgeShare / (knowledgeShare + historyShare)
+      : 0;
+
+  const historyFloor = Math.min(
+    options.minHistoryTokens,
+    input.historyTokens,
+    available
+  );
+  const knowledge = Math.min(
+    available - historyFloor,
+    Math.max(
+      Math.floor(available * knowledgeRatio),
+      available - input.historyTokens
+    )
+  );
+
+  return {
+    system: Math.floor(input.limit * systemShare),
+    knowledge,
+    history: available - knowledge,
+    output: input.outputTokens,
+  };
+}
+
+export function buildBudgetedRequest(
+  input: BudgetedRequestInput
+): BudgetedRequest {
+  const { history, knowledgeContext, countMessageTokens } = input;
+  const sum = (messages: ChatMessage[]) =>
+    messages.reduce((total, message) => total + countMessageTokens(message), 0);
+
+  const pinnedCount = isSummaryMessage(history[1]) ? 2 : 1;
+  const pinned = history.slice(0, pinnedCount);
+  const turns = history.slice(pinnedCount);
+  const latest = turns.slice(-1);
+  const earlier = turns.slice(0, -1);
+
+  const systemTokens = sum(pinned);
+  const plan = planTokenBudget(
+    {
+      limit: input.limit,
+      systemTokens,
+      historyTokens: sum(turns),
+      outputTokens: input.outputTokens,
+      replyPrimingTokens: input.replyPrimingTokens,
+    },
+    input.options
+  );
+
+  const knowledge = knowledgeContext
+    ? trimKnowledgeContext(knowledgeContext, plan.knowledge, countMessageTokens)
+    : null;
+  const knowledgeTokens = knowledge ? countMessageTokens(knowledge.message) : 0;
+
+  // History takes whatever knowledge leaves, including room it did not use
+  // and minus canned responses that ran over the knowledge budget.
+  const historyBudget = Math.max(
+    0,
+    plan.knowledge + plan.history - knowledgeTokens
+  );
+
+  let historyTokens = sum(latest);
+  let firstKept = earlier.length;
+  while (firstKept > 0) {
+    const candidate = earlier[firstKept - 1];
+    const candidateTokens = candidate ? countMessageTokens(candidate) : 0;
+    if (historyTokens + candidateTokens > historyBudget) {
+      break;
+    }
+    historyTokens += candidateTokens;
+    firstKept -= 1;
+  }
+
+  return {
+    messages: [
+      ...pinned,
+      ...earlier.slice(firstKept),
+      ...(knowledge ? [knowledge.message] : []),
+      ...latest,
+    ],
+    knowledgeContext: knowledge,
+    droppedSnippets:
+      (knowledgeContext?.snippets.length ?? 0) -
+      (knowledge?.snippets.length ?? 0),
+    droppedMessages: firstKept,
+    planned: plan,
+    actual: {
+      system: systemTokens,
+      knowledge: knowledgeTokens,
+      history: historyTokens,
+    },
+  };
+}
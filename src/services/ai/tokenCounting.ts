@@ -0,0 +1,120 @@
+import type OpenAI from "openai";
+import {
+  encoding_for_model,
+  get_encoding,
+  type Tiktoken,
+  type TiktokenEncoding,
+  type TiktokenModel,
+} from "tiktoken";
+import { logger } from "../../logger.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export type ChatTokenizer = Pick<Tiktoken, "encode">;
+
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const TOKENS_PER_TOOL_CALL = 3;
+export const REPLY_PRIMING_TOKENS = 3;
+
+const O200K_MODEL_PREFIXES = [
+  "gpt-4o",
+  "gpt-4.1",
+  "gpt-4.5",
+  "gpt-5",
+  "o1",
+  "o3",
+  "o4",
+];
+
+export function fallbackEncodingForModel(model: string): TiktokenEncoding {
+  return O200K_MODEL_PREFIXES.some((prefix) => model.startsWith(prefix))
+    ? "o200k_base"
+    : "cl100k_base";
+}
+
+export function resolveTokenizer(model: string): ChatTokenizer {
+  try {
+    return encoding_for_model(model as TiktokenModel);
+  } catch {
+    const encoding = fallbackEncodingForModel(model);
+    logger
+      .child({ module: "token-counting", model })
+      .warn({ encoding }, "tokenizer.model.unknown");
+    return get_encoding(encoding);
+  }
+}
+
+export interface ChatTokenCounter {
+  countMessage: (message: ChatMessage) => number;
+  countMessages: (messages: ChatMessage[]) => number;
+}
+
+export function createChatTokenCounter(
+  tokenizer: ChatTokenizer
+): ChatTokenCounter {
+  const cache = new WeakMap<ChatMessage, number>();
+
+  const encodeLength = (text: string) =>
+    text ? tokenizer.encode(text).length : 0;
+
+  const contentTokens = (content: ChatMessage["content"]): number => {
+    if (typeof content === "string") {
+      return encodeLength(content);
+    }
+    if (!Array.isArray(content)) {
+      return 0;
+    }
+    return content.reduce(
+      (total, part) =>
+        part.type === "text" ? total + encodeLength(part.text) : total,
+      0
+    );
+  };
+
+  const computeMessageTokens = (message: ChatMessage): number => {
+    let tokens =
+      TOKENS_PER_MESSAGE +
+      encodeLength(message.role) +
+      contentTokens(message.content);
+
+    if ("name" in message && message.name) {
+      tokens += TOKENS_PER_NAME + encodeLength(message.name);
+    }
+
+    if (message.role === "assistant") {
+      message.tool_calls?.forEach((toolCall) => {
+        tokens += TOKENS_PER_TOOL_CALL + encodeLength(toolCall.id);
+        if (toolCall.type === "function") {
+          tokens +=
+            encodeLength(toolCall.function.name) +
+            encodeLength(toolCall.function.arguments);
+        }
+      });
+    }
+
+    if (message.role === "tool") {
+      tokens += encodeLength(message.tool_call_id);
+    }
+
+    return tokens;
+  };
+
+  const countMessage = (message: ChatMessage): number => {
+    const cached = cache.get(message);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const tokens = computeMessageTokens(message);
+    cache.set(message, tokens);
+    return tokens;
+  };
+
+  const countMessages = (messages: ChatMessage[]): number =>
+    messages.length === 0
+      ? 0
+      : messages.reduce((total, message) => total + countMessage(message), 0) +
+        REPLY_PRIMING_TOKENS;
+
+  return { countMessage, countMessages };
+}
@@ -0,0 +1,66 @@
+import type OpenAI from "openai";
+import { toFile } from "openai";
+import { logger } from "../../logger.js";
+
+export interface AudioInput {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface AudioTranscriber {
+  transcribe: (audio: AudioInput) => Promise<string>;
+}
+
+export interface OpenAITranscriberOptions {
+  client: OpenAI;
+  model: string;
+}
+
+const extensionFor = (contentType: string) => {
+  const subtype = contentType.split(";")[0]?.split("/")[1]?.trim();
+  switch (subtype) {
+    case "mpeg":
+      return "mp3";
+    case "x-m4a":
+    case "mp4":
+      return "m4a";
+    case "amr":
+    case "ogg":
+    case "wav":
+    case "webm":
+      return subtype;
+    default:
+      return "ogg";
+  }
+};
+
+export function createOpenAITranscriber(
+  options: OpenAITranscriberOptions
+): AudioTranscriber {
+  const { client, model } = options;
+  const transcriberLogger = logger.child({ module: "transcription", model });
+
+  const transcribe = async ({ data, contentType }: AudioInput) => {
+    const startedAt = Date.now();
+    const file = await toFile(data, `voice-note.${extensionFor(contentType)}`, {
+      type: contentType,
+    });
+    const result = await client.audio.transcriptions.create({
+      file,
+      model,
+    });
+
+    transcriberLogger.info(
+      {
+        bytes: data.length,
+        characters: result.text.length,
+        durationMs: Date.now() - startedAt,
+      },
+      "audio.transcription.completed"
+    );
+
+    return result.text.trim();
+  };
+
+  return { transcribe };
+}
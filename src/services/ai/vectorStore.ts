@@ -0,0 +1,73 @@
+export type VectorMetadataValue = string | number | boolean | null;
+
+export type VectorMetadata = Record<string, VectorMetadataValue>;
+
+export type VectorWhere =
+  | { $and: VectorWhere[] }
+  | { $or: VectorWhere[] }
+  | Record<string, VectorMetadataValue | { $in: VectorMetadataValue[] }>;
+
+export interface VectorQueryArgs {
+  queryEmbeddings: number[][];
+  nResults: number;
+  where?: VectorWhere;
+}
+
+export interface VectorQueryResult {
+  ids: string[][];
+  documents: Array<Array<string | null>>;
+  metadatas: Array<Array<VectorMetadata | null>>;
+  distances: Array<Array<number | null>>;
+}
+
+export interface VectorGetArgs {
+  ids?: string[];
+  where?: VectorWhere;
+  limit?: number;
+  offset?: number;
+}
+
+export interface VectorGetResult {
+  ids: string[];
+  documents: Array<string | null>;
+  metadatas: Array<VectorMetadata | null>;
+}
+
+export interface VectorUpsertArgs {
+  ids: string[];
+  documents: string[];
+  metadatas: VectorMetadata[];
+  embeddings: number[][];
+}
+
+export interface VectorStore {
+  name: string;
+  collection: string;
+  query: (args: VectorQueryArgs) => Promise<VectorQueryResult>;
+  get: (args: VectorGetArgs) => Promise<VectorGetResult>;
+  upsert: (args: VectorUpsertArgs) => Promise<void>;
+  delete: (args: { ids: string[] }) => Promise<void>;
+}
+
+export function matchesWhere(
+  metadata: VectorMetadata,
+  where: VectorWhere | undefined
+): boolean {
+  if (!where) {
+    return true;
+  }
+  if ("$and" in where && Array.isArray(where.$and)) {
+    return where.$and.every((clause) => matchesWhere(metadata, clause));
+  }
+  if ("$or" in where && Array.isArray(where.$or)) {
+    return where.$or.some((clause) => matchesWhere(metadata, clause));
+  }
+
+  return Object.entries(where).every(([key, condition]) => {
+    const value = metadata[key];
+    if (condition && typeof condition === "object" && "$in" in condition) {
+      return value !== undefined && condition.$in.includes(value);
+    }
+    return value === condition;
+  });
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from "node:crypto";
+
+export const workshopTypes = [
+  "wheel",
+  "foraging_and_imprint",
+  "other",
+] as const;
+
+export type WorkshopType = (typeof workshopTypes)[number];
+
+export interface HumanFollowupRequest {
+  id: string;
+  conversationId: string;
+  reason: string;
+  participants: number | null;
+  workshopType: WorkshopType | null;
+  requestedDate: string | null;
+  createdAt: string;
+}
+
+export type NewHumanFollowupRequest = Omit<
+  HumanFollowupRequest,
+  "id" | "createdAt"
+>;
+
+export interface FollowupRequestStore {
+  add: (request: NewHumanFollowupRequest) => HumanFollowupRequest;
+  list: (conversationId?: string) => HumanFollowupRequest[];
+}
+
+export function createFollowupRequestStore(
+  now: () => Date = () => new Date()
+): FollowupRequestStore {
+  const requests: HumanFollowupRequest[] = [];
+
+  const add = (request: NewHumanFollowupRequest): HumanFollowupRequest => {
+    const stored: HumanFollowupRequest = {
+      ...request,
+      id: randomUUID(),
+      createdAt: now().toISOString(),
+    };
+    requests.push(stored);
+    return stored;
+  };
+
+  const list = (conversationId?: string) =>
+    conversationId
+      ? requests.filter((request) => request.conversationId === conversationId)
+      : [...requests];
+
+  return { add, list };
+}
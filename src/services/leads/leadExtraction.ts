@@ -0,0 +1,232 @@
+import type OpenAI from "openai";
+import { z } from "zod";
+import { logger } from "../../logger.js";
+import { leadExtractionPrompt } from "../../prompts/leadExtraction.js";
+import { workshopTypes } from "./followupRequests.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export const genderForms = ["male", "female", "mixed"] as const;
+export const dayTypes = ["weekday", "friday", "saturday"] as const;
+
+export type GenderForm = (typeof genderForms)[number];
+export type DayType = (typeof dayTypes)[number];
+
+export const leadExtractionSchema = z.object({
+  participants: z.number().int().positive().nullable(),
+  workshop_type: z.enum(workshopTypes).nullable(),
+  gender_form: z.enum(genderForms).nullable(),
+  requested_date: z.string().trim().min(1).nullable(),
+  day_type: z.enum(dayTypes).nullable(),
+});
+
+export type LeadExtraction = z.infer<typeof leadExtractionSchema>;
+
+const REQUIRED_LEAD_FIELDS = [
+  "participants",
+  "workshopType",
+  "requestedDate",
+] as const;
+
+export type RequiredLeadField = (typeof REQUIRED_LEAD_FIELDS)[number];
+
+export interface Lead {
+  conversationId: string;
+  participants: number | null;
+  workshopType: (typeof workshopTypes)[number] | null;
+  genderForm: GenderForm | null;
+  requestedDate: string | null;
+  dayType: DayType | null;
+  complete: boolean;
+  missingFields: RequiredLeadField[];
+  updatedAt: string;
+}
+
+const leadResponseFormat: OpenAI.ResponseFormatJSONSchema = {
+  type: "json_schema",
+  json_schema: {
+    name: "booking_lead",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        participants: { type: ["integer", "null"] },
+        workshop_type: {
+          type: ["string", "null"],
+          enum: [...workshopTypes, null],
+        },
+        gender_form: { type: ["string", "null"], enum: [...genderForms, null] },
+        requested_date: { type: ["string", "null"] },
+        day_type: { type: ["string", "null"], enum: [...dayTypes, null] },
+      },
+      required: [
+        "participants",
+        "workshop_type",
+        "gender_form",
+        "requested_date",
+        "day_type",
+      ],
+      additionalProperties: false,
+    },
+  },
+};
+
+export interface LeadExtractionServiceOptions {
+  client: OpenAI;
+  model: string;
+  getConversationHistory: (conversationId: string) => Promise<ChatMessage[]>;
+  now?: () => Date;
+}
+
+export interface LeadExtractionService {
+  extractLead: (conversationId: string) => Promise<Lead | null>;
+  getLead: (conversationId: string) => Lead | null;
+  listLeads: () => Lead[];
+}
+
+export function mergeLead(
+  conversationId: string,
+  previous: Lead | null,
+  extraction: LeadExtraction,
+  updatedAt: string
+): Lead {
+  const fields = {
+    participants: extraction.participants ?? previous?.participants ?? null,
+    workshopType: extraction.workshop_type ?? previous?.workshopType ?? null,
+    genderForm: extraction.gender_form ?? previous?.genderForm ?? null,
+    requestedDate: extraction.requested_date ?? previous?.requestedDate ?? null,
+    dayType: extraction.day_type ?? previous?.dayType ?? null,
+  };
+
+  const missingFields = REQUIRED_LEAD_FIELDS.filter(
+    (field) => fields[field] === null
+  );
+
+  return {
+    conversationId,
+    ...fields,
+    complete: missingFields.length === 0,
+    missingFields,
+    updatedAt,
+  };
+}
+
+export function formatLeadSummary(lead: Lead): string {
+  return [
+    `participants=${lead.participants ?? ""}`,
+    `workshop_type=${lead.workshopType ?? ""}`,
+    `gender_form=${lead.genderForm ?? ""}`,
+    `requested_date=${lead.requestedDate ?? ""}`,
+    `day_type=${lead.dayType ?? ""}`,
+    `complete=${lead.complete}`,
+  ].join("; ");
+}
+
+function toTranscript(messages: ChatMessage[]): string {
+  return messages
+    .filter(
+      (message) => message.role === "user" || message.role === "assistant"
+    )
+    .map((message) => {
+      const content =
+        typeof message.content === "string"
+          ? message.content
+          : JSON.stringify(message.content ?? "");
+      return `${message.role}: ${content}`;
+    })
+    .join("\n");
+}
+
+export function createLeadExtractionService(
+  options: LeadExtractionServiceOptions
+): LeadExtractionService {
+  const { client, model, getConversationHistory } = options;
+  const now = options.now ?? (() => new Date());
+  const serviceLogger = logger.child({ module: "lead-extraction" });
+
+  const leads = new Map<string, Lead>();
+
+  const parseExtraction = (
+    conversationId: string,
+    content: string | null | undefined
+  ): LeadExtraction | null => {
+    let parsedJson: unknown;
+    try {
+      parsedJson = JSON.parse(content ?? "");
+    } catch {
+      serviceLogger.warn({ conversationId }, "lead.extraction.invalid_json");
+      return null;
+    }
+
+    const parsed = leadExtractionSchema.safeParse(parsedJson);
+    if (!parsed.success) {
+      serviceLogger.warn(
+        { conversationId, errors: parsed.error.flatten().fieldErrors },
+        "lead.extraction.invalid"
+      );
+      return null;
+    }
+
+    return parsed.data;
+  };
+
+  const extractLead = async (conversationId: string): Promise<Lead | null> => {
+    const previous = leads.get(conversationId) ?? null;
+    const transcript = toTranscript(
+      await getConversationHistory(conversationId)
+    );
+
+    if (!transcript) {
+      return previous;
+    }
+
+    const startedAt = Date.now();
+    const completion = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: leadExtractionPrompt },
+        { role: "user", content: transcript },
+      ],
+      response_format: leadResponseFormat,
+    });
+
+    const extraction = parseExtraction(
+      conversationId,
+      completion.choices[0]?.message?.content
+    );
+
+    if (!extraction) {
+      return previous;
+    }
+
+    const lead = mergeLead(
+      conversationId,
+      previous,
+      extraction,
+      now().toISOString()
+    );
+    leads.set(conversationId, lead);
+
+    serviceLogger.info(
+      {
+        conversationId,
+        complete: lead.complete,
+        missingFields: lead.missingFields,
+        usageTokens: completion.usage?.total_tokens ?? null,
+        durationMs: Date.now() - startedAt,
+      },
+      "lead.extraction.completed"
+    );
+
+    return lead;
+  };
+
+  return {
+    extractLead,
+    getLead: (conversationId) => leads.get(conversationId) ?? null,
+    listLeads: () =>
+      [...leads.values()].sort((a, b) =>
+        b.updatedAt.localeCompare(a.updatedAt)
+      ),
+  };
+}
@@ -0,0 +1,119 @@
+import type { SendMessageResult } from "../../types/index.js";
+import type { InboundLocation, InboundMedia } from "./inboundMedia.js";
+import { logger } from "../../logger.js";
+
+export const channelNames = ["whatsapp", "sms", "web"] as const;
+
+export type ChannelName = (typeof channelNames)[number];
+
+export interface ChannelCapabilities {
+  maxMessageLength: number;
+  media: boolean;
+}
+
+export interface ChannelMessage {
+  body: string;
+  mediaUrls?: string[];
+}
+
+export interface ChannelInboundMessage {
+  messageSid: string;
+  address: string;
+  body: string;
+  media?: InboundMedia[];
+  location?: InboundLocation;
+}
+
+export type ChannelParseResult =
+  | { success: true; message: ChannelInboundMessage }
+  | { success: false; details: Record<string, string[] | undefined> };
+
+export interface ChannelAcknowledgement {
+  contentType: string;
+  body: string;
+}
+
+export interface Channel {
+  name: ChannelName;
+  capabilities: ChannelCapabilities;
+  webhookPath: string;
+  acknowledgement: ChannelAcknowledgement;
+  parseInbound: (payload: unknown) => ChannelParseResult;
+  send: (
+    address: string,
+    message: ChannelMessage
+  ) => Promise<SendMessageResult>;
+  // Channels without their own check are Twilio webhooks and are verified
+  // with the Twilio request signature.
+  authenticate?: (authorization: string | undefined) => boolean;
+}
+
+export const conversationIdFor = (channel: ChannelName, address: string) =>
+  `${channel}:${address}`;
+
+export function parseConversationId(
+  conversationId: string
+): { channel: ChannelName; address: string } | null {
+  const separator = conversationId.indexOf(":");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const channel = conversationId.slice(0, separator) as ChannelName;
+  const address = conversationId.slice(separator + 1);
+  if (!channelNames.includes(channel) || !address) {
+    return null;
+  }
+
+  return { channel, address };
+}
+
+export interface ChannelRegistry {
+  list: () => Channel[];
+  send: (
+    conversationId: string,
+    message: ChannelMessage
+  ) => Promise<SendMessageResult>;
+}
+
+export function createChannelRegistry(channels: Channel[]): ChannelRegistry {
+  const registryLogger = logger.child({ module: "channel-registry" });
+  const byName = new Map<ChannelName, Channel>();
+
+  for (const channel of channels) {
+    if (byName.has(channel.name)) {
+      throw new Error(`Channel ${channel.name} is registered twice`);
+    }
+    byName.set(channel.name, channel);
+  }
+
+  const send = async (
+    conversationId: string,
+    message: ChannelMessage
+  ): Promise<SendMessageResult> => {
+    const parsed = parseConversationId(conversationId);
+    const channel = parsed && byName.get(parsed.channel);
+    if (!parsed || !channel) {
+      registryLogger.error({ conversationId }, "channel.unknown");
+      return {
+        success: false,
+        error: `No channel configured for conversation ${conversationId}`,
+      };
+    }
+
+    const { mediaUrls, ...rest } = message;
+    if (mediaUrls?.length && !channel.capabilities.media) {
+      registryLogger.warn(
+        { conversationId, channel: channel.name, mediaUrls },
+        "channel.media.unsupported"
+      );
+    }
+
+    return channel.send(parsed.address, {
+      ...rest,
+      ...(mediaUrls?.length && channel.capabilities.media && { mediaUrls }),
+    });
+  };
+
+  return { list: () => [...byName.values()], send };
+}
@@ -0,0 +1,204 @@
+import { logger } from "../../logger.js";
+
+export const messageDeliveryStatuses = [
+  "accepted",
+  "scheduled",
+  "queued",
+  "sending",
+  "sent",
+  "delivered",
+  "read",
+  "undelivered",
+  "failed",
+  "canceled",
+] as const;
+
+export type MessageDeliveryStatus = (typeof messageDeliveryStatuses)[number];
+
+export const isMessageDeliveryStatus = (
+  value: unknown
+): value is MessageDeliveryStatus =>
+  messageDeliveryStatuses.includes(value as MessageDeliveryStatus);
+
+// Twilio does not guarantee callback order, so a late "sent" must not
+// overwrite "read". Failures are final.
+const statusRank: Record<MessageDeliveryStatus, number> = {
+  accepted: 0,
+  scheduled: 0,
+  queued: 1,
+  sending: 2,
+  sent: 3,
+  delivered: 4,
+  read: 5,
+  undelivered: 6,
+  failed: 6,
+  canceled: 6,
+};
+
+export interface DeliveryStatusTransition {
+  status: MessageDeliveryStatus;
+  at: string;
+  errorCode?: string;
+}
+
+export interface MessageDeliveryRecord {
+  messageSid: string;
+  conversationId: string | null;
+  status: MessageDeliveryStatus;
+  updatedAt: string;
+  errorCode?: string;
+  errorMessage?: string;
+  transitions: DeliveryStatusTransition[];
+}
+
+export interface DeliveryStatusUpdate {
+  messageSid: string;
+  status: MessageDeliveryStatus;
+  to?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+export interface DeliveryStatusStoreOptions {
+  maxEntries?: number;
+  now?: () => number;
+  // Maps a callback's To address to a conversation id for messages the store
+  // never tracked; must match the mapping the sending service uses.
+  conversationIdOf?: (to: string) => string;
+}
+
+export interface DeliveryStatusStore {
+  track: (
+    messageSid: string,
+    conversationId: string,
+    status?: MessageDeliveryStatus
+  ) => void;
+  recordStatus: (update: DeliveryStatusUpdate) => MessageDeliveryRecord;
+  get: (messageSid: string) => MessageDeliveryRecord | null;
+  listForConversation: (conversationId: string) => MessageDeliveryRecord[];
+}
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+export function createDeliveryStatusStore(
+  options: DeliveryStatusStoreOptions = {}
+): DeliveryStatusStore {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const now = options.now ?? Date.now;
+  const conversationIdOf = options.conversationIdOf ?? ((to: string) => to);
+  const storeLogger = logger.child({ module: "delivery-status" });
+  const records = new Map<string, MessageDeliveryRecord>();
+
+  const evictOldest = () => {
+    while (records.size > maxEntries) {
+      const oldest = records.keys().next().value;
+      if (oldest === undefined) {
+        return;
+      }
+      records.delete(oldest);
+    }
+  };
+
+  const copy = (record: MessageDeliveryRecord): MessageDeliveryRecord => ({
+    ...record,
+    transitions: record.transitions.map((transition) => ({ ...transition })),
+  });
+
+  const track = (
+    messageSid: string,
+    conversationId: string,
+    status: MessageDeliveryStatus = "queued"
+  ) => {
+    const existing = records.get(messageSid);
+    if (existing) {
+      existing.conversationId ??= conversationId;
+      return;
+    }
+
+    const at = new Date(now()).toISOString();
+    records.set(messageSid, {
+      messageSid,
+      conversationId,
+      status,
+      updatedAt: at,
+      transitions: [{ status, at }],
+    });
+    evictOldest();
+  };
+
+  const recordStatus = ({
+    messageSid,
+    status,
+    to,
+    errorCode,
+    errorMessage,
+  }: DeliveryStatusUpdate): MessageDeliveryRecord => {
+    const at = new Date(now()).toISOString();
+    const transition: DeliveryStatusTransition = {
+      status,
+      at,
+      ...(errorCode && { errorCode }),
+    };
+
+    let record = records.get(messageSid);
+    if (!record) {
+      record = {
+        messageSid,
+        conversationId: to ? conversationIdOf(to) : null,
+        status,
+        updatedAt: at,
+        transitions: [],
+      };
+      records.set(messageSid, record);
+      evictOldest();
+    }
+
+    record.transitions.push(transition);
+
+    const previousStatus = record.status;
+    if (statusRank[status] >= statusRank[previousStatus]) {
+      record.status = status;
+      record.updatedAt = at;
+    }
+    if (errorCode) {
+      record.errorCode = errorCode;
+    }
+    if (errorMessage) {
+      record.errorMessage = errorMessage;
+    }
+
+    const logPayload = {
+      messageSid,
+      conversationId: record.conversationId,
+      previousStatus,
+      status: record.status,
+      reportedStatus: status,
+      ...(errorCode && { errorCode }),
+    };
+    if (status === "failed" || status === "undelivered") {
+      storeLogger.warn(logPayload, "twilio.delivery.failed");
+    } else {
+      storeLogger.info(logPayload, "twilio.delivery.updated");
+    }
+
+    return copy(record);
+  };
+
+  const get = (messageSid: string) => {
+    const record = records.get(messageSid);
+    return record ? copy(record) : null;
+  };
+
+  const listForConversation = (conversationId: string) =>
+    [...records.values()]
+      .filter((record) => record.conversationId === conversationId)
+      .reverse()
+      .map(copy);
+
+  return {
+    track,
+    recordStatus,
+    get,
+    listForConversation,
+  };
+}
@@ -0,0 +1,157 @@
+import type OpenAI from "openai";
+import type { SendMessageResult } from "../../types/index.js";
+import type { ChannelMessage } from "./channel.js";
+import { logger } from "../../logger.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export const conversationModes = ["bot", "human", "paused"] as const;
+
+export type ConversationMode = (typeof conversationModes)[number];
+
+export interface ConversationModeState {
+  mode: ConversationMode;
+  updatedAt: string;
+  expiresAt: string | null;
+}
+
+export interface HandoffServiceOptions {
+  humanTimeoutMs: number;
+  sendMessage: (
+    conversationId: string,
+    message: ChannelMessage
+  ) => Promise<SendMessageResult>;
+  recordMessage: (
+    conversationId: string,
+    message: ChatMessage
+  ) => Promise<void>;
+  now?: () => number;
+}
+
+export interface HandoffService {
+  getMode: (conversationId: string) => ConversationModeState;
+  setMode: (
+    conversationId: string,
+    mode: ConversationMode
+  ) => ConversationModeState;
+  isBotActive: (conversationId: string) => boolean;
+  sendStaffReply: (
+    conversationId: string,
+    body: string
+  ) => Promise<SendMessageResult>;
+}
+
+interface StoredModeState {
+  mode: Exclude<ConversationMode, "bot">;
+  updatedAt: number;
+  expiresAt: number | null;
+}
+
+export function createHandoffService(
+  options: HandoffServiceOptions
+): HandoffService {
+  const { humanTimeoutMs, sendMessage, recordMessage } = options;
+  const now = options.now ?? Date.now;
+  const serviceLogger = logger.child({ module: "handoff-service" });
+
+  const states = new Map<string, StoredModeState>();
+
+  const toModeState = (
+    state: StoredModeState | undefined
+  ): ConversationModeState => {
+    if (!state) {
+      return {
+        mode: "bot",
+        updatedAt: new Date(now()).toISOString(),
+        expiresAt: null,
+      };
+    }
+
+    return {
+      mode: state.mode,
+      updatedAt: new Date(state.updatedAt).toISOString(),
+      expiresAt:
+        state.expiresAt === null
+          ? null
+          : new Date(state.expiresAt).toISOString(),
+    };
+  };
+
+  const getMode = (conversationId: string): ConversationModeState => {
+    const state = states.get(conversationId);
+
+    if (state && state.expiresAt !== null && state.expiresAt <= now()) {
+      states.delete(conversationId);
+      serviceLogger.info(
+        { conversationId, previousMode: state.mode },
+        "conversation.handoff.expired"
+      );
+      return toModeState(undefined);
+    }
+
+    return toModeState(state);
+  };
+
+  const setMode = (
+    conversationId: string,
+    mode: ConversationMode
+  ): ConversationModeState => {
+    const previousMode = getMode(conversationId).mode;
+
+    if (mode === "bot") {
+      states.delete(conversationId);
+    } else {
+      const current = now();
+      states.set(conversationId, {
+        mode,
+        updatedAt: current,
+        expiresAt: mode === "human" ? current + humanTimeoutMs : null,
+      });
+    }
+
+    serviceLogger.info(
+      { conversationId, previousMode, mode },
+      "conversation.mode.changed"
+    );
+
+    return getMode(conversationId);
+  };
+
+  const isBotActive = (conversationId: string) =>
+    getMode(conversationId).mode === "bot";
+
+  const sendStaffReply = async (
+    conversationId: string,
+    body: string
+  ): Promise<SendMessageResult> => {
+    const result = await sendMessage(conversationId, { body });
+
+    if (!result.success) {
+      serviceLogger.error(
+        { conversationId, error: result.error },
+        "conversation.staff.reply.failed"
+      );
+      return result;
+    }
+
+    await recordMessage(conversationId, { role: "assistant", content: body });
+
+    if (getMode(conversationId).mode !== "paused") {
+      setMode(conversationId, "human");
+    }
+
+    serviceLogger.info(
+      { conversationId, messageSid: result.messageSid },
+      "conversation.staff.reply.sent"
+    );
+
+    return result;
+  };
+
+  return {
+    getMode,
+    setMode,
+    isBotActive,
+    sendStaffReply,
+  };
+}
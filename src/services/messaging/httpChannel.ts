@@ -0,0 +1,123 @@
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import type { SendMessageResult } from "../../types/index.js";
+import { tokensMatch } from "../../utils/tokens.js";
+import { logger } from "../../logger.js";
+import type {
+  Channel,
+  ChannelCapabilities,
+  ChannelMessage,
+} from "./channel.js";
+import { segmentReply } from "./replySegmenter.js";
+
+export const HTTP_CHANNEL_MAX_MESSAGE_LENGTH = 4096;
+
+const httpInboundMessageSchema = z.object({
+  sessionId: z
+    .string()
+    .regex(
+      /^[A-Za-z0-9_-]{1,128}$/,
+      "sessionId must be 1-128 letters, digits, '-' or '_'"
+    ),
+  messageId: z.string().trim().min(1, "messageId is required").max(128),
+  text: z.string().trim().min(1, "text is required"),
+});
+
+export interface HttpChannelOptions {
+  webhookUrl: string;
+  token: string;
+  maxMessageLength?: number;
+  fetchImpl?: typeof fetch;
+}
+
+export function createHttpChannel(options: HttpChannelOptions): Channel {
+  const { webhookUrl, token } = options;
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const capabilities: ChannelCapabilities = {
+    maxMessageLength:
+      options.maxMessageLength ?? HTTP_CHANNEL_MAX_MESSAGE_LENGTH,
+    media: true,
+  };
+  const channelLogger = logger.child({ module: "http-channel" });
+
+  const send = async (
+    sessionId: string,
+    message: ChannelMessage
+  ): Promise<SendMessageResult> => {
+    const messageId = randomUUID();
+
+    try {
+      const response = await fetchImpl(webhookUrl, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          sessionId,
+          messageId,
+          messages: segmentReply(message.body, capabilities.maxMessageLength),
+          mediaUrls: message.mediaUrls ?? [],
+        }),
+      });
+
+      if (!response.ok) {
+        channelLogger.error(
+          { sessionId, messageId, status: response.status },
+          "web.message.failed"
+        );
+        return {
+          success: false,
+          error: `Web channel webhook responded with ${response.status}`,
+        };
+      }
+
+      channelLogger.info({ sessionId, messageId }, "web.message.sent");
+      return { success: true, messageSid: messageId };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      channelLogger.error(
+        { sessionId, messageId, error: errorMessage },
+        "web.message.failed"
+      );
+      return { success: false, error: errorMessage };
+    }
+  };
+
+  return {
+    name: "web",
+    capabilities,
+    webhookPath: "/web/messages",
+    acknowledgement: {
+      contentType: "application/json",
+      body: JSON.stringify({ accepted: true }),
+    },
+    parseInbound: (payload) => {
+      const parsed = httpInboundMessageSchema.safeParse(payload);
+      if (!parsed.success) {
+        return { success: false, details: parsed.error.flatten().fieldErrors };
+      }
+
+      return {
+        success: true,
+        message: {
+          // Widgets number messages per session, and the dedupe store is
+          // shared by every channel.
+          messageSid: `web-${parsed.data.sessionId}-${parsed.data.messageId}`,
+          address: parsed.data.sessionId,
+          body: parsed.data.text,
+        },
+      };
+    },
+    send,
+    authenticate: (authorization) => {
+      const [scheme, provided] = (authorization ?? "").split(" ");
+      return (
+        scheme === "Bearer" &&
+        provided !== undefined &&
+        tokensMatch(provided, token)
+      );
+    },
+  };
+}
@@ -0,0 +1,181 @@
+import type { DownloadedMedia } from "../../clients/twilioMedia.js";
+import type { AudioTranscriber } from "../ai/transcription.js";
+import type { ImageInput } from "../ai/openai.js";
+import { logger } from "../../logger.js";
+
+export const inboundMediaKinds = [
+  "image",
+  "audio",
+  "video",
+  "document",
+] as const;
+
+export type InboundMediaKind = (typeof inboundMediaKinds)[number];
+
+export interface InboundMedia {
+  url: string;
+  contentType: string;
+}
+
+export interface InboundLocation {
+  latitude: number;
+  longitude: number;
+  address?: string;
+  label?: string;
+}
+
+export interface InboundContent {
+  body: string;
+  media?: InboundMedia[];
+  location?: InboundLocation;
+}
+
+export interface PreparedInboundContent {
+  text: string;
+  images: ImageInput[];
+  unsupported: InboundMediaKind[];
+}
+
+export interface InboundMediaServiceOptions {
+  downloadMedia?: (url: string) => Promise<DownloadedMedia>;
+  transcriber?: AudioTranscriber;
+  imageInput?: boolean;
+}
+
+export interface InboundMediaService {
+  prepare: (
+    conversationId: string,
+    content: InboundContent
+  ) => Promise<PreparedInboundContent>;
+}
+
+export function mediaKindOf(contentType: string): InboundMediaKind {
+  const type = contentType.split("/")[0]?.trim().toLowerCase();
+  if (type === "image" || type === "audio" || type === "video") {
+    return type;
+  }
+  return "document";
+}
+
+export function describeLocation(location: InboundLocation): string {
+  const details = [location.label, location.address].filter(Boolean);
+  return `[Location: ${location.latitude}, ${location.longitude}${
+    details.length > 0 ? ` (${details.join(", ")})` : ""
+  }]`;
+}
+
+export function describeUnsupportedMedia(kind: InboundMediaKind): string {
+  return `[Unsupported ${kind} attachment]`;
+}
+
+// Text-only rendering for conversations a human is handling: staff read the
+// placeholders, so nothing is downloaded or transcribed.
+export function describeInboundContent({
+  body,
+  media = [],
+  location,
+}: InboundContent): string {
+  const lines = body.trim() ? [body] : [];
+  if (location) {
+    lines.push(describeLocation(location));
+  }
+  for (const item of media) {
+    const kind = mediaKindOf(item.contentType);
+    if (kind === "image") {
+      lines.push("[Image attached]");
+    } else if (kind === "audio") {
+      lines.push("[Voice note]");
+    } else {
+      lines.push(describeUnsupportedMedia(kind));
+    }
+  }
+  return lines.join("\n");
+}
+
+export function createInboundMediaService(
+  options: InboundMediaServiceOptions = {}
+): InboundMediaService {
+  const { downloadMedia, transcriber } = options;
+  const imageInput = options.imageInput ?? true;
+  const serviceLogger = logger.child({ module: "inbound-media" });
+
+  const prepareImage = async (media: InboundMedia): Promise<ImageInput> => {
+    if (!downloadMedia || !imageInput) {
+      throw new Error("Image input is disabled");
+    }
+    const { data } = await downloadMedia(media.url);
+    return {
+      url: `data:${media.contentType};base64,${data.toString("base64")}`,
+    };
+  };
+
+  const transcribeAudio = async (media: InboundMedia): Promise<string> => {
+    if (!downloadMedia || !transcriber) {
+      throw new Error("Audio transcription is disabled");
+    }
+    const { data } = await downloadMedia(media.url);
+    const transcript = await transcriber.transcribe({
+      data,
+      contentType: media.contentType,
+    });
+    if (!transcript) {
+      throw new Error("Transcription is empty");
+    }
+    return transcript;
+  };
+
+  const prepare = async (
+    conversationId: string,
+    { body, media = [], location }: InboundContent
+  ): Promise<PreparedInboundContent> => {
+    const lines = body.trim() ? [body] : [];
+    const images: ImageInput[] = [];
+    const unsupported: InboundMediaKind[] = [];
+
+    if (location) {
+      lines.push(describeLocation(location));
+    }
+
+    for (const item of media) {
+      const kind = mediaKindOf(item.contentType);
+      try {
+        if (kind === "image") {
+          images.push(await prepareImage(item));
+          lines.push("[Image attached]");
+        } else if (kind === "audio") {
+          lines.push(`[Voice note] ${await transcribeAudio(item)}`);
+        } else {
+          unsupported.push(kind);
+        }
+      } catch (error) {
+        serviceLogger.warn(
+          {
+            conversationId,
+            kind,
+            contentType: item.contentType,
+            error: error instanceof Error ? error.message : error,
+          },
+          "inbound.media.unavailable"
+        );
+        unsupported.push(kind);
+      }
+    }
+
+    if (media.length > 0 || location) {
+      serviceLogger.info(
+        {
+          conversationId,
+          media: media.length,
+          images: images.length,
+          unsupported,
+          location: Boolean(location),
+        },
+        "inbound.media.prepared"
+      );
+    }
+
+    return { text: lines.join("\n"), images, unsupported };
+  };
+
+  return { prepare };
+}
@@ -0,0 +1,316 @@
+import type OpenAI from "openai";
+import type { SendMessageResult } from "../../types/index.js";
+import type { ConversationCsvMessage } from "../export/conversationCsv.js";
+import type {
+  GenerateReplyOptions,
+  GenerateReplyResult,
+} from "../ai/openai.js";
+import type { ChannelMessage } from "./channel.js";
+import { formatLeadSummary, type Lead } from "../leads/leadExtraction.js";
+import {
+  createInboundMediaService,
+  describeInboundContent,
+  describeUnsupportedMedia,
+  type InboundLocation,
+  type InboundMedia,
+  type InboundMediaService,
+} from "./inboundMedia.js";
+import { mediaFallbackReplies } from "../../prompts/mediaReplies.js";
+import { logger } from "../../logger.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export interface InboundMessage {
+  messageSid: string;
+  from: string;
+  body: string;
+  receivedAt: number;
+  mergedMessageSids?: string[];
+  media?: InboundMedia[];
+  location?: InboundLocation;
+}
+
+export interface InboundMessageProcessorDependencies {
+  generateSimpleResponse: (
+    conversationId: string,
+    message: string,
+    options?: GenerateReplyOptions
+  ) => Promise<GenerateReplyResult>;
+  sendMessage: (
+    conversationId: string,
+    message: ChannelMessage
+  ) => Promise<SendMessageResult>;
+  saveConversationCsv?: (
+    conversationId: string,
+    messages: ConversationCsvMessage[]
+  ) => Promise<unknown>;
+  getConversationHistory?: (conversationId: string) => Promise<ChatMessage[]>;
+  isBotActive?: (conversationId: string) => boolean;
+  recordMessage?: (
+    conversationId: string,
+    message: ChatMessage
+  ) => Promise<void>;
+  extractLead?: (conversationId: string) => Promise<Lead | null>;
+  getLead?: (conversationId: string) => Lead | null;
+  prepareContent?: InboundMediaService["prepare"];
+}
+
+export interface InboundMessageResult {
+  replyMessageSid?: string;
+}
+
+export interface InboundMessageProcessor {
+  processInboundMessage: (
+    message: InboundMessage
+  ) => Promise<InboundMessageResult>;
+}
+
+export function createInboundMessageProcessor(
+  dependencies: InboundMessageProcessorDependencies
+): InboundMessageProcessor {
+  const {
+    generateSimpleResponse,
+    sendMessage,
+    saveConversationCsv,
+    getConversationHistory,
+    isBotActive,
+    recordMessage,
+    extractLead,
+    getLead,
+  } = dependencies;
+
+  if (!generateSimpleResponse || !sendMessage) {
+    throw new Error(
+      "Inbound message processor dependencies are not configured"
+    );
+  }
+
+  const serviceLogger = logger.child({ module: "inbound-messages" });
+  const prepareContent =
+    dependencies.prepareContent ?? createInboundMediaService().prepare;
+
+  async function deliverReply(
+    from: string,
+    reply: string,
+    inboundMessageSid: string,
+    receivedAt: number,
+    mediaUrls: string[] = []
+  ): Promise<SendMessageResult> {
+    const result = await sendMessage(from, {
+      body: reply,
+      ...(mediaUrls.length > 0 && { mediaUrls }),
+    });
+
+    if (!result.success) {
+      serviceLogger.error(
+        {
+          error: result.error,
+          from,
+          ...(result.messageSids?.length && {
+            deliveredSegments: result.messageSids.length,
+            segmentCount: result.segmentCount,
+          }),
+        },
+        result.messageSids?.length
+          ? "whatsapp.message.send.partial"
+          : "whatsapp.message.send.failed"
+      );
+      throw new Error(`Failed to send message: ${result.error ?? "unknown"}`);
+    }
+
+    serviceLogger.info(
+      {
+        conversationId: from,
+        inboundMessageSid,
+        messageSid: result.messageSid,
+        ...(result.messageSids &&
+          result.messageSids.length > 1 && {
+            messageSids: result.messageSids,
+          }),
+        ...(mediaUrls.length > 0 && { mediaUrls }),
+        latencyMs: Date.now() - receivedAt,
+      },
+      "whatsapp.message.replied"
+    );
+
+    return result;
+  }
+
+  async function handleExportRequest(
+    conversationId: string,
+    saveCsv: NonNullable<
+      InboundMessageProcessorDependencies["saveConversationCsv"]
+    >
+  ): Promise<void> {
+    if (!getConversationHistory) {
+      await sendMessage(conversationId, {
+        body: "Export service unavailable: Conversation history not accessible.",
+      });
+      return;
+    }
+
+    try {
+      const messages = await getConversationHistory(conversationId);
+      if (!messages || messages.length === 0) {
+        await sendMessage(conversationId, {
+          body: "Could not export conversation: No conversation history found.",
+        });
+        return;
+      }
+
+      const csvMessages: ConversationCsvMessage[] = messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({
+          role: m.role,
+          content:
+            typeof m.content === "string"
+              ? m.content
+              : JSON.stringify(m.content),
+          timestamp: new Date().toISOString(),
+        }));
+
+      const lead = getLead?.(conversationId);
+      if (lead) {
+        csvMessages.push({
+          role: "lead",
+          content: formatLeadSummary(lead),
+          timestamp: lead.updatedAt,
+        });
+      }
+
+      await saveCsv(conversationId, csvMessages);
+      await sendMessage(conversationId, {
+        body: "Conversation exported successfully to Google Drive.",
+      });
+    } catch (error) {
+      serviceLogger.error({ conversationId, error }, "export.failed");
+      await sendMessage(conversationId, {
+        body: "Failed to export conversation.",
+      });
+    }
+  }
+
+  const processInboundMessage = async ({
+    messageSid,
+    from,
+    body,
+    receivedAt,
+    media,
+    location,
+  }: InboundMessage): Promise<InboundMessageResult> => {
+    const isExportRequest = body.trim().toLowerCase() === "export";
+
+    if (isExportRequest && saveConversationCsv) {
+      await handleExportRequest(from, saveConversationCsv);
+      return {};
+    }
+
+    if (isBotActive && recordMessage && !isBotActive(from)) {
+      await recordMessage(from, {
+        role: "user",
+        content: describeInboundContent({
+          body,
+          ...(media && { media }),
+          ...(location && { location }),
+        }),
+      });
+      serviceLogger.info(
+        { conversationId: from, inboundMessageSid: messageSid },
+        "conversation.handoff.message.stored"
+      );
+      return {};
+    }
+
+    const content =
+      media || location
+        ? await prepareContent(from, {
+            body,
+            ...(media && { media }),
+            ...(location && { location }),
+          })
+        : { text: body, images: [], unsupported: [] };
+    const userMessage = [
+      content.text,
+      ...content.unsupported.map(describeUnsupportedMedia),
+    ]
+      .filter((line) => line.length > 0)
+      .join("\n");
+
+    if (!content.text.trim()) {
+      const kind = content.unsupported[0] ?? "document";
+      const fallbackReply = mediaFallbackReplies[kind];
+      serviceLogger.info(
+        { conversationId: from, inboundMessageSid: messageSid, kind },
+        "inbound.media.fallback"
+      );
+
+      const result = await deliverReply(
+        from,
+        fallbackReply,
+        messageSid,
+        receivedAt
+      );
+      if (recordMessage) {
+        await recordMessage(from, { role: "user", content: userMessage });
+        await recordMessage(from, {
+          role: "assistant",
+          content: fallbackReply,
+        });
+      }
+
+      return result.messageSid ? { replyMessageSid: result.messageSid } : {};
+    }
+
+    const openaiResult =
+      content.images.length > 0
+        ? await generateSimpleResponse(from, userMessage, {
+            images: content.images,
+          })
+        : await generateSimpleResponse(from, userMessage);
+    const openaiResponse = openaiResult.response;
+
+    serviceLogger.info(
+      {
+        conversationId: from,
+        userMessage,
+        assistantResponse: openaiResponse,
+        tokens: {
+          total: openaiResult.tokens.totalTokens,
+          usage: openaiResult.tokens.usageTokens,
+          request: openaiResult.tokens.requestTokens,
+          conversation: openaiResult.tokens.conversationTokens,
+          knowledge: openaiResult.tokens.knowledgeTokens,
+          user: openaiResult.tokens.userTokens,
+          durationMs: openaiResult.tokens.durationMs,
+        },
+      },
+      "message.exchange.complete"
+    );
+
+    const result = await deliverReply(
+      from,
+      openaiResponse,
+      messageSid,
+      receivedAt,
+      openaiResult.mediaUrls
+    );
+
+    if (extractLead) {
+      try {
+        await extractLead(from);
+      } catch (error) {
+        serviceLogger.error(
+          {
+            conversationId: from,
+            error: error instanceof Error ? error.message : error,
+          },
+          "lead.extraction.failed"
+        );
+      }
+    }
+
+    return result.messageSid ? { replyMessageSid: result.messageSid } : {};
+  };
+
+  return { processInboundMessage };
+}
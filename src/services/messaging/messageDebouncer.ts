@@ -0,0 +1,105 @@
+import type { InboundMessage } from "./inboundMessages.js";
+import { logger } from "../../logger.js";
+
+export interface MessageDebouncerOptions {
+  windowMs: number;
+  onFlush: (message: InboundMessage) => void;
+}
+
+export interface MessageDebouncer {
+  push: (message: InboundMessage) => void;
+  flushAll: () => void;
+  pendingCount: () => number;
+}
+
+interface PendingConversation {
+  messages: InboundMessage[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function mergeInboundMessages(
+  messages: InboundMessage[]
+): InboundMessage {
+  const [first, ...rest] = messages;
+  if (!first) {
+    throw new Error("Cannot merge an empty list of inbound messages");
+  }
+
+  if (rest.length === 0) {
+    return first;
+  }
+
+  const media = messages.flatMap((message) => message.media ?? []);
+  const location = [...messages]
+    .reverse()
+    .find((message) => message.location)?.location;
+
+  return {
+    messageSid: first.messageSid,
+    from: first.from,
+    body: messages
+      .map((message) => message.body)
+      .filter((body) => body.trim().length > 0)
+      .join("\n"),
+    receivedAt: first.receivedAt,
+    mergedMessageSids: messages.flatMap(
+      (message) => message.mergedMessageSids ?? [message.messageSid]
+    ),
+    ...(media.length > 0 && { media }),
+    ...(location && { location }),
+  };
+}
+
+export function createMessageDebouncer(
+  options: MessageDebouncerOptions
+): MessageDebouncer {
+  const { windowMs, onFlush } = options;
+  const debouncerLogger = logger.child({ module: "message-debouncer" });
+  const pending = new Map<string, PendingConversation>();
+
+  const flush = (conversationId: string) => {
+    const entry = pending.get(conversationId);
+    if (!entry) {
+      return;
+    }
+    clearTimeout(entry.timer);
+    pending.delete(conversationId);
+
+    if (entry.messages.length > 1) {
+      debouncerLogger.info(
+        { conversationId, merged: entry.messages.length, windowMs },
+        "message.debounce.merged"
+      );
+    }
+
+    onFlush(mergeInboundMessages(entry.messages));
+  };
+
+  const push = (message: InboundMessage) => {
+    if (windowMs <= 0) {
+      onFlush(message);
+      return;
+    }
+
+    const existing = pending.get(message.from);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const messages = [...(existing?.messages ?? []), message];
+    pending.set(message.from, {
+      messages,
+      timer: setTimeout(() => flush(message.from), windowMs),
+    });
+  };
+
+  const flushAll = () => {
+    [...pending.keys()].forEach(flush);
+  };
+
+  return {
+    push,
+    flushAll,
+    pendingCount: () => pending.size,
+  };
+}
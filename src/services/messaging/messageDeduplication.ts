@@ -0,0 +1,87 @@
+export type InboundMessageStatus = "processing" | "completed" | "failed";
+
+export interface InboundMessageRecord {
+  messageSid: string;
+  status: InboundMessageStatus;
+  receivedAt: number;
+  replyMessageSid?: string;
+  error?: string;
+}
+
+export type InboundMessageClaim =
+  | { duplicate: false; record: InboundMessageRecord }
+  | { duplicate: true; record: InboundMessageRecord };
+
+export interface MessageDeduplicationStoreOptions {
+  ttlMs: number;
+  now?: () => number;
+}
+
+export interface MessageDeduplicationStore {
+  claim: (messageSid: string) => InboundMessageClaim;
+  complete: (messageSid: string, replyMessageSid?: string) => void;
+  fail: (messageSid: string, error: string) => void;
+  size: () => number;
+}
+
+export function createMessageDeduplicationStore(
+  options: MessageDeduplicationStoreOptions
+): MessageDeduplicationStore {
+  const { ttlMs } = options;
+  const now = options.now ?? Date.now;
+  const records = new Map<string, InboundMessageRecord>();
+
+  const evictExpired = (current: number) => {
+    for (const [messageSid, record] of records) {
+      if (current - record.receivedAt < ttlMs) {
+        break;
+      }
+      records.delete(messageSid);
+    }
+  };
+
+  const claim = (messageSid: string): InboundMessageClaim => {
+    const current = now();
+    evictExpired(current);
+
+    const existing = records.get(messageSid);
+    if (existing) {
+      return { duplicate: true, record: { ...existing } };
+    }
+
+    const record: InboundMessageRecord = {
+      messageSid,
+      status: "processing",
+      receivedAt: current,
+    };
+    records.set(messageSid, record);
+    return { duplicate: false, record: { ...record } };
+  };
+
+  const complete = (messageSid: string, replyMessageSid?: string) => {
+    const record = records.get(messageSid);
+    if (!record) {
+      return;
+    }
+    record.status = "completed";
+    if (replyMessageSid) {
+      record.replyMessageSid = replyMessageSid;
+    }
+  };
+
+  const fail = (messageSid: string, error: string) => {
+    const record = records.get(messageSid);
+    if (!record) {
+      return;
+    }
+    record.status = "failed";
+    record.error = error;
+  };
+
+  return {
+    claim,
+    complete,
+    fail,
+    size: () => records.size,
+  };
+}
@@ -0,0 +1,127 @@
+import { logger } from "../../logger.js";
+
+export interface MessageQueueOptions<T> {
+  name: string;
+  concurrency: number;
+  process: (job: T) => Promise<void>;
+  keyOf?: (job: T) => string;
+}
+
+export interface MessageQueue<T> {
+  enqueue: (job: T) => void;
+  size: () => number;
+  activeCount: () => number;
+  onIdle: () => Promise<void>;
+}
+
+interface QueuedJob<T> {
+  job: T;
+  enqueuedAt: number;
+}
+
+export function createMessageQueue<T>(
+  options: MessageQueueOptions<T>
+): MessageQueue<T> {
+  const { name, process, keyOf } = options;
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  const queueLogger = logger.child({ module: "message-queue", queue: name });
+
+  const pending: QueuedJob<T>[] = [];
+  const activeKeys = new Set<string>();
+  let active = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const notifyIdle = () => {
+    if (active > 0 || pending.length > 0) {
+      return;
+    }
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach((resolve) => resolve());
+  };
+
+  const runJob = async ({ job, enqueuedAt }: QueuedJob<T>) => {
+    const startedAt = Date.now();
+    try {
+      await process(job);
+      queueLogger.info(
+        {
+          waitMs: startedAt - enqueuedAt,
+          durationMs: Date.now() - startedAt,
+          latencyMs: Date.now() - enqueuedAt,
+          depth: pending.length,
+          active,
+        },
+        "queue.job.completed"
+      );
+    } catch (error) {
+      queueLogger.error(
+        {
+          waitMs: startedAt - enqueuedAt,
+          durationMs: Date.now() - startedAt,
+          depth: pending.length,
+          active,
+          error: error instanceof Error ? error.message : error,
+        },
+        "queue.job.failed"
+      );
+    }
+  };
+
+  const takeNextRunnable = (): QueuedJob<T> | undefined => {
+    const index = keyOf
+      ? pending.findIndex((queued) => !activeKeys.has(keyOf(queued.job)))
+      : 0;
+    if (index < 0) {
+      return undefined;
+    }
+    return pending.splice(index, 1)[0];
+  };
+
+  const drain = () => {
+    while (active < concurrency && pending.length > 0) {
+      const next = takeNextRunnable();
+      if (!next) {
+        break;
+      }
+      const key = keyOf?.(next.job);
+      if (key !== undefined) {
+        activeKeys.add(key);
+      }
+      active += 1;
+      void runJob(next).finally(() => {
+        active -= 1;
+        if (key !== undefined) {
+          activeKeys.delete(key);
+        }
+        drain();
+        notifyIdle();
+      });
+    }
+  };
+
+  const enqueue = (job: T) => {
+    pending.push({ job, enqueuedAt: Date.now() });
+    queueLogger.info(
+      { depth: pending.length, active, concurrency },
+      "queue.job.enqueued"
+    );
+    drain();
+  };
+
+  const onIdle = (): Promise<void> => {
+    if (active === 0 && pending.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      idleWaiters.push(resolve);
+    });
+  };
+
+  return {
+    enqueue,
+    size: () => pending.length,
+    activeCount: () => active,
+    onIdle,
+  };
+}
@@ -0,0 +1,90 @@
+export const WHATSAPP_MAX_BODY_LENGTH = 1600;
+
+interface SegmentBoundary {
+  split: RegExp;
+  join: string;
+}
+
+// Coarsest boundary first: paragraphs, lines, sentences, then words. URLs
+// contain no whitespace, so they are only ever cut by the final hard split.
+const boundaries: SegmentBoundary[] = [
+  { split: /\n\s*\n/, join: "\n\n" },
+  { split: /\n/, join: "\n" },
+  { split: /(?<=[.!?…])\s+/, join: " " },
+  { split: /\s+/, join: " " },
+];
+
+// Lengths are UTF-16 code units like everywhere else here; walking code
+// points keeps emoji and other surrogate pairs from being cut in half.
+const hardSplit = (text: string, maxLength: number): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+  for (const character of text) {
+    if (current && current.length + character.length > maxLength) {
+      chunks.push(current);
+      current = "";
+    }
+    current += character;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+const splitAtBoundary = (
+  text: string,
+  maxLength: number,
+  level: number
+): string[] => {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const boundary = boundaries[level];
+  if (!boundary) {
+    return hardSplit(text, maxLength);
+  }
+
+  const segments: string[] = [];
+  let current = "";
+
+  text
+    .split(boundary.split)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .flatMap((part) => splitAtBoundary(part, maxLength, level + 1))
+    .forEach((piece) => {
+      const candidate = current ? `${current}${boundary.join}${piece}` : piece;
+      if (candidate.length <= maxLength) {
+        current = candidate;
+        return;
+      }
+      if (current) {
+        segments.push(current);
+      }
+      current = piece;
+    });
+
+  if (current) {
+    segments.push(current);
+  }
+
+  return segments;
+};
+
+export function segmentReply(
+  text: string,
+  maxLength: number = WHATSAPP_MAX_BODY_LENGTH
+): string[] {
+  if (!Number.isInteger(maxLength) || maxLength <= 0) {
+    throw new Error("maxLength must be a positive integer");
+  }
+
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) {
+    return [trimmed.length > 0 ? trimmed : text];
+  }
+
+  return splitAtBoundary(trimmed, maxLength, 0);
+}
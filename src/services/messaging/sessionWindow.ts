@@ -0,0 +1,52 @@
+export const WHATSAPP_SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionWindowState {
+  openedAt: string;
+  expiresAt: string;
+  open: boolean;
+}
+
+export interface SessionWindowTrackerOptions {
+  windowMs?: number;
+  now?: () => number;
+}
+
+export interface SessionWindowTracker {
+  recordInbound: (conversationId: string, receivedAt?: number) => void;
+  getWindow: (conversationId: string) => SessionWindowState | null;
+  isOpen: (conversationId: string) => boolean;
+}
+
+export function createSessionWindowTracker(
+  options: SessionWindowTrackerOptions = {}
+): SessionWindowTracker {
+  const windowMs = options.windowMs ?? WHATSAPP_SESSION_WINDOW_MS;
+  const now = options.now ?? Date.now;
+  const lastInbound = new Map<string, number>();
+
+  const recordInbound = (conversationId: string, receivedAt = now()) => {
+    const previous = lastInbound.get(conversationId);
+    if (previous === undefined || receivedAt > previous) {
+      lastInbound.set(conversationId, receivedAt);
+    }
+  };
+
+  const getWindow = (conversationId: string): SessionWindowState | null => {
+    const openedAt = lastInbound.get(conversationId);
+    if (openedAt === undefined) {
+      return null;
+    }
+
+    const expiresAt = openedAt + windowMs;
+    return {
+      openedAt: new Date(openedAt).toISOString(),
+      expiresAt: new Date(expiresAt).toISOString(),
+      open: now() < expiresAt,
+    };
+  };
+
+  const isOpen = (conversationId: string) =>
+    getWindow(conversationId)?.open ?? false;
+
+  return { recordInbound, getWindow, isOpen };
+}
@@ -0,0 +1,126 @@
+import type { HumanFollowupRequest } from "../leads/followupRequests.js";
+import { logger } from "../../logger.js";
+import type { TwilioService } from "./twilio.js";
+
+export interface StaffNotifierOptions {
+  whatsAppNumber?: string;
+  webhookUrl?: string;
+  // Sent like any other outbound message, so staff outside the 24-hour
+  // session window get the follow-up template instead of a rejected send.
+  twilioService: Pick<TwilioService, "sendMessage">;
+  fetchImpl?: typeof fetch;
+}
+
+export interface StaffNotifier {
+  notify: (request: HumanFollowupRequest) => Promise<boolean>;
+}
+
+export function formatFollowupNotification(
+  request: HumanFollowupRequest
+): string {
+  const lines = [
+    "בקשת חזרה מצוות הסטודיו",
+    `לקוח: ${request.conversationId}`,
+    `סיבה: ${request.reason}`,
+  ];
+
+  if (request.participants !== null) {
+    lines.push(`משתתפים: ${request.participants}`);
+  }
+  if (request.workshopType !== null) {
+    lines.push(`סוג סדנה: ${request.workshopType}`);
+  }
+  if (request.requestedDate !== null) {
+    lines.push(`תאריך מבוקש: ${request.requestedDate}`);
+  }
+
+  return lines.join("\n");
+}
+
+export function createStaffNotifier(
+  options: StaffNotifierOptions
+): StaffNotifier {
+  const { whatsAppNumber, webhookUrl, twilioService } = options;
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const notifierLogger = logger.child({ module: "staff-notifier" });
+
+  const notifyWhatsApp = async (
+    target: string,
+    request: HumanFollowupRequest
+  ): Promise<boolean> => {
+    const result = await twilioService.sendMessage(target, {
+      body: formatFollowupNotification(request),
+    });
+    if (!result.success) {
+      notifierLogger.error(
+        { requestId: request.id, error: result.error },
+        "staff.notify.whatsapp.failed"
+      );
+    }
+    return result.success;
+  };
+
+  const notifyWebhook = async (
+    target: string,
+    request: HumanFollowupRequest
+  ): Promise<boolean> => {
+    try {
+      const response = await fetchImpl(target, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ type: "human_followup", request }),
+      });
+      if (!response.ok) {
+        notifierLogger.error(
+          { requestId: request.id, status: response.status },
+          "staff.notify.webhook.failed"
+        );
+      }
+      return response.ok;
+    } catch (error) {
+      notifierLogger.error(
+        {
+          requestId: request.id,
+          error: error instanceof Error ? error.message : error,
+        },
+        "staff.notify.webhook.failed"
+      );
+      return false;
+    }
+  };
+
+  const notify = async (request: HumanFollowupRequest): Promise<boolean> => {
+    const deliveries: Array<Promise<boolean>> = [];
+
+    if (whatsAppNumber) {
+      deliveries.push(notifyWhatsApp(whatsAppNumber, request));
+    }
+    if (webhookUrl) {
+      deliveries.push(notifyWebhook(webhookUrl, request));
+    }
+
+    if (deliveries.length === 0) {
+      notifierLogger.warn(
+        { requestId: request.id, conversationId: request.conversationId },
+        "staff.notify.unconfigured"
+      );
+      return false;
+    }
+
+    const results = await Promise.all(deliveries);
+    const notified = results.some(Boolean);
+
+    notifierLogger.info(
+      {
+        requestId: request.id,
+        conversationId: request.conversationId,
+        notified,
+      },
+      "staff.notify.completed"
+    );
+
+    return notified;
+  };
+
+  return { notify };
+}
@@ -1,78 +1,255 @@
+import { setTimeout as sleep } from "node:timers/promises";
 import type { Twilio } from "twilio";
 import type { SendMessageResult } from "../../types/index.js";
 import { logger } from "../../logger.js";
+import { segmentReply, WHATSAPP_MAX_BODY_LENGTH } from "./replySegmenter.js";
+import {
+  isMessageDeliveryStatus,
+  type DeliveryStatusStore,
+} from "./deliveryStatus.js";
+import type { SessionWindowTracker } from "./sessionWindow.js";
+
+export type TemplateVariables = Record<string, string>;
+
+export interface TemplateMessage {
+  contentSid: string;
+  variables?: TemplateVariables;
+}
+
+export interface WhatsAppMessageOptions {
+  mediaUrls?: string[];
+}
+
+export interface OutboundMessage extends WhatsAppMessageOptions {
+  body: string;
+  template?: TemplateMessage;
+}
 
 export interface TwilioServiceOptions {
   client: Twilio;
   fromNumber?: string;
   messagingServiceSid?: string;
+  maxSegmentLength?: number;
+  segmentDelayMs?: number;
+  statusCallbackUrl?: string;
+  deliveryStatusStore?: DeliveryStatusStore;
+  sessionWindow?: SessionWindowTracker;
+  followupContentSid?: string;
+  conversationIdOf?: (to: string) => string;
 }
 
 export interface TwilioService {
-  sendWhatsAppMessage: (to: string, body: string) => Promise<SendMessageResult>;
+  sendWhatsAppMessage: (
+    to: string,
+    body: string,
+    options?: WhatsAppMessageOptions
+  ) => Promise<SendMessageResult>;
+  sendTemplateMessage: (
+    to: string,
+    contentSid: string,
+    variables?: TemplateVariables
+  ) => Promise<SendMessageResult>;
+  sendMessage: (
+    to: string,
+    message: OutboundMessage
+  ) => Promise<SendMessageResult>;
 }
 
 export function createTwilioService(
   options: TwilioServiceOptions
 ): TwilioService {
-  const { client, fromNumber, messagingServiceSid } = options;
+  const {
+    client,
+    fromNumber,
+    messagingServiceSid,
+    statusCallbackUrl,
+    deliveryStatusStore,
+    sessionWindow,
+    followupContentSid,
+  } = options;
+  const conversationIdOf = options.conversationIdOf ?? ((to: string) => to);
+  const maxSegmentLength = options.maxSegmentLength ?? WHATSAPP_MAX_BODY_LENGTH;
+  const segmentDelayMs = options.segmentDelayMs ?? 0;
   const serviceLogger = logger.child({ module: "twilio-service" });
 
+  const createMessage = async (
+    to: string,
+    content:
+      | { body: string }
+      | { mediaUrl: string[] }
+      | { contentSid: string; contentVariables: string }
+  ): Promise<string> => {
+    const messageParams: {
+      to: string;
+      body?: string;
+      mediaUrl?: string[];
+      contentSid?: string;
+      contentVariables?: string;
+      from?: string;
+      messagingServiceSid?: string;
+      statusCallback?: string;
+    } = {
+      to,
+      ...content,
+      ...(statusCallbackUrl && { statusCallback: statusCallbackUrl }),
+    };
+
+    if (messagingServiceSid) {
+      messageParams.messagingServiceSid = messagingServiceSid;
+    } else if (fromNumber) {
+      messageParams.from = fromNumber;
+    }
+
+    const message = await client.messages.create(messageParams);
+    deliveryStatusStore?.track(
+      message.sid,
+      conversationIdOf(to),
+      isMessageDeliveryStatus(message.status) ? message.status : undefined
+    );
+    return message.sid;
+  };
+
+  // WhatsApp carries a single attachment per message, so each media URL is
+  // sent as its own message after the text segments.
   const sendWhatsAppMessage = async (
     to: string,
-    body: string
+    body: string,
+    options: WhatsAppMessageOptions = {}
   ): Promise<SendMessageResult> => {
-    try {
-      const messageParams: {
-        to: string;
-        body: string;
-        from?: string;
-        messagingServiceSid?: string;
-      } = {
-        to,
-        body,
-      };
+    const segments: Array<{ body: string } | { mediaUrl: string[] }> = [
+      ...segmentReply(body, maxSegmentLength).map((segment) => ({
+        body: segment,
+      })),
+      ...[...new Set(options.mediaUrls ?? [])].map((mediaUrl) => ({
+        mediaUrl: [mediaUrl],
+      })),
+    ];
+    const messageSids: string[] = [];
 
-      if (messagingServiceSid) {
-        messageParams.messagingServiceSid = messagingServiceSid;
-      } else if (fromNumber) {
-        messageParams.from = fromNumber;
+    for (const [index, segment] of segments.entries()) {
+      if (index > 0 && segmentDelayMs > 0) {
+        await sleep(segmentDelayMs);
       }
 
-      const message = await client.messages.create(messageParams);
+      try {
+        const messageSid = await createMessage(to, segment);
+        messageSids.push(messageSid);
+
+        serviceLogger.info(
+          {
+            to,
+            messageSid,
+            messagingServiceSid,
+            segment: index + 1,
+            segmentCount: segments.length,
+            ...("mediaUrl" in segment && { mediaUrl: segment.mediaUrl[0] }),
+          },
+          "twilio.message.sent"
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+
+        serviceLogger.error(
+          {
+            to,
+            messagingServiceSid,
+            segment: index + 1,
+            segmentCount: segments.length,
+            deliveredSids: messageSids,
+            error: errorMessage,
+          },
+          messageSids.length > 0
+            ? "twilio.message.partial"
+            : "twilio.message.failed"
+        );
+
+        return {
+          success: false,
+          ...(messageSids[0] && { messageSid: messageSids[0] }),
+          messageSids,
+          segmentCount: segments.length,
+          failedSegment: index,
+          error: errorMessage,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      ...(messageSids[0] && { messageSid: messageSids[0] }),
+      messageSids,
+      segmentCount: segments.length,
+    };
+  };
+
+  const sendTemplateMessage = async (
+    to: string,
+    contentSid: string,
+    variables: TemplateVariables = {}
+  ): Promise<SendMessageResult> => {
+    try {
+      const messageSid = await createMessage(to, {
+        contentSid,
+        contentVariables: JSON.stringify(variables),
+      });
 
       serviceLogger.info(
-        {
-          to,
-          messageSid: message.sid,
-          messagingServiceSid: messageParams.messagingServiceSid,
-        },
-        "twilio.message.sent"
+        { to, messageSid, messagingServiceSid, contentSid },
+        "twilio.template.sent"
       );
 
-      return {
-        success: true,
-        messageSid: message.sid,
-      };
+      return { success: true, messageSid, messageSids: [messageSid] };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
 
       serviceLogger.error(
-        {
-          to,
-          messagingServiceSid,
-          error: errorMessage,
-        },
-        "twilio.message.failed"
+        { to, messagingServiceSid, contentSid, error: errorMessage },
+        "twilio.template.failed"
       );
 
-      return {
-        success: false,
-        error: errorMessage,
-      };
+      return { success: false, error: errorMessage };
     }
   };
 
-  return { sendWhatsAppMessage };
+  const sendMessage = async (
+    to: string,
+    message: OutboundMessage
+  ): Promise<SendMessageResult> => {
+    const mediaOptions = message.mediaUrls?.length
+      ? { mediaUrls: message.mediaUrls }
+      : {};
+
+    if (!sessionWindow || sessionWindow.isOpen(to)) {
+      return sendWhatsAppMessage(to, message.body, mediaOptions);
+    }
+
+    const template =
+      message.template ??
+      (followupContentSid && {
+        contentSid: followupContentSid,
+        variables: { "1": message.body },
+      });
+
+    if (!template) {
+      serviceLogger.warn(
+        { to, window: sessionWindow.getWindow(to) },
+        "twilio.session.closed.freeform"
+      );
+      return sendWhatsAppMessage(to, message.body, mediaOptions);
+    }
+
+    serviceLogger.info(
+      {
+        to,
+        contentSid: template.contentSid,
+        window: sessionWindow.getWindow(to),
+      },
+      "twilio.session.closed.template"
+    );
+    return sendTemplateMessage(to, template.contentSid, template.variables);
+  };
+
+  return { sendWhatsAppMessage, sendTemplateMessage, sendMessage };
 }
@@ -0,0 +1,97 @@
+import { twilioMessageSchema } from "../../types/index.js";
+import {
+  conversationIdFor,
+  type Channel,
+  type ChannelCapabilities,
+  type ChannelParseResult,
+} from "./channel.js";
+import { WHATSAPP_MAX_BODY_LENGTH } from "./replySegmenter.js";
+import type { TwilioService } from "./twilio.js";
+
+export const SMS_MAX_BODY_LENGTH = 1600;
+
+export const whatsAppCapabilities: ChannelCapabilities = {
+  maxMessageLength: WHATSAPP_MAX_BODY_LENGTH,
+  media: true,
+};
+
+// MMS only reaches US and Canadian numbers, so SMS replies stay text-only.
+export const smsCapabilities: ChannelCapabilities = {
+  maxMessageLength: SMS_MAX_BODY_LENGTH,
+  media: false,
+};
+
+const WHATSAPP_ADDRESS_PREFIX = "whatsapp:";
+
+// Twilio addresses WhatsApp recipients with the "whatsapp:" prefix and SMS
+// recipients as bare numbers, so the address alone names the channel.
+export const twilioConversationIdOf = (to: string) =>
+  to.startsWith(WHATSAPP_ADDRESS_PREFIX)
+    ? conversationIdFor("whatsapp", to.slice(WHATSAPP_ADDRESS_PREFIX.length))
+    : conversationIdFor("sms", to);
+
+const TWIML_ACKNOWLEDGEMENT = {
+  contentType: "text/xml",
+  body: "<Response></Response>",
+};
+
+const parseTwilioMessage = (
+  payload: unknown,
+  toAddress: (from: string) => string
+): ChannelParseResult => {
+  const parsed = twilioMessageSchema.safeParse(payload);
+  if (!parsed.success) {
+    return { success: false, details: parsed.error.flatten().fieldErrors };
+  }
+
+  const { MessageSid, From, Body, media, location } = parsed.data;
+  return {
+    success: true,
+    message: {
+      messageSid: MessageSid,
+      address: toAddress(From),
+      body: Body,
+      ...(media.length > 0 && { media }),
+      ...(location && { location }),
+    },
+  };
+};
+
+export interface TwilioChannelOptions {
+  twilioService: Pick<TwilioService, "sendMessage">;
+}
+
+export function createWhatsAppChannel({
+  twilioService,
+}: TwilioChannelOptions): Channel {
+  return {
+    name: "whatsapp",
+    capabilities: whatsAppCapabilities,
+    webhookPath: "/whatsapp",
+    acknowledgement: TWIML_ACKNOWLEDGEMENT,
+    parseInbound: (payload) =>
+      parseTwilioMessage(payload, (from) =>
+        from.startsWith(WHATSAPP_ADDRESS_PREFIX)
+          ? from.slice(WHATSAPP_ADDRESS_PREFIX.length)
+          : from
+      ),
+    send: (address, message) =>
+      twilioService.sendMessage(
+        `${WHATSAPP_ADDRESS_PREFIX}${address}`,
+        message
+      ),
+  };
+}
+
+export function createSmsChannel({
+  twilioService,
+}: TwilioChannelOptions): Channel {
+  return {
+    name: "sms",
+    capabilities: smsCapabilities,
+    webhookPath: "/sms",
+    acknowledgement: TWIML_ACKNOWLEDGEMENT,
+    parseInbound: (payload) => parseTwilioMessage(payload, (from) => from),
+    send: (address, message) => twilioService.sendMessage(address, message),
+  };
+}
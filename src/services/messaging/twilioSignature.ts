@@ -0,0 +1,69 @@
+import twilio from "twilio";
+import { logger } from "../../logger.js";
+
+export interface TwilioSignatureServiceOptions {
+  authToken: string;
+}
+
+export interface WebhookRequestDetails {
+  signature: string | undefined;
+  url: string;
+  params: Record<string, unknown>;
+}
+
+export interface TwilioSignatureService {
+  isValidRequest: (details: WebhookRequestDetails) => boolean;
+}
+
+type HeaderValue = string | string[] | undefined;
+
+export interface PublicUrlSource {
+  headers: Record<string, HeaderValue>;
+  protocol: string;
+  url: string;
+}
+
+function firstHeaderValue(value: HeaderValue): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const first = raw?.split(",")[0]?.trim();
+  return first && first.length > 0 ? first : undefined;
+}
+
+export function resolvePublicUrl(source: PublicUrlSource): string {
+  const protocol =
+    firstHeaderValue(source.headers["x-forwarded-proto"]) ?? source.protocol;
+  const host =
+    firstHeaderValue(source.headers["x-forwarded-host"]) ??
+    firstHeaderValue(source.headers.host) ??
+    "localhost";
+
+  return `${protocol}://${host}${source.url}`;
+}
+
+export function createTwilioSignatureService(
+  options: TwilioSignatureServiceOptions
+): TwilioSignatureService {
+  const { authToken } = options;
+  const serviceLogger = logger.child({ module: "twilio-signature" });
+
+  const isValidRequest = ({
+    signature,
+    url,
+    params,
+  }: WebhookRequestDetails): boolean => {
+    if (!signature) {
+      serviceLogger.warn({ url }, "twilio.signature.missing");
+      return false;
+    }
+
+    const valid = twilio.validateRequest(authToken, signature, url, params);
+
+    if (!valid) {
+      serviceLogger.warn({ url }, "twilio.signature.invalid");
+    }
+
+    return valid;
+  };
+
+  return { isValidRequest };
+}
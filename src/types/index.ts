@@ -1,15 +1,83 @@
 import { z } from "zod";
 
-export const whatsappMessageSchema = z.object({
-  From: z.string().min(1, "From field is required"),
-  Body: z.string().min(1, "Body field is required"),
+export const MAX_TWILIO_MEDIA_ITEMS = 10;
+
+const twilioMediaItemSchema = z.object({
+  url: z.string().url(),
+  contentType: z.string().min(1),
 });
 
-export type WhatsAppMessage = z.infer<typeof whatsappMessageSchema>;
+export const twilioMessageSchema = z
+  .object({
+    MessageSid: z.string().min(1, "MessageSid field is required"),
+    From: z.string().min(1, "From field is required"),
+    Body: z.string().default(""),
+    NumMedia: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_TWILIO_MEDIA_ITEMS)
+      .default(0),
+    Latitude: z.coerce.number().min(-90).max(90).optional(),
+    Longitude: z.coerce.number().min(-180).max(180).optional(),
+    Address: z.string().optional(),
+    Label: z.string().optional(),
+  })
+  .catchall(z.unknown())
+  .transform((data, context) => {
+    const media: z.infer<typeof twilioMediaItemSchema>[] = [];
+    for (let index = 0; index < data.NumMedia; index += 1) {
+      const item = twilioMediaItemSchema.safeParse({
+        url: data[`MediaUrl${index}`],
+        contentType: data[`MediaContentType${index}`],
+      });
+      if (!item.success) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [`MediaUrl${index}`],
+          message: `MediaUrl${index} and MediaContentType${index} are required`,
+        });
+        return z.NEVER;
+      }
+      media.push(item.data);
+    }
+
+    const location =
+      data.Latitude !== undefined && data.Longitude !== undefined
+        ? {
+            latitude: data.Latitude,
+            longitude: data.Longitude,
+            ...(data.Address && { address: data.Address }),
+            ...(data.Label && { label: data.Label }),
+          }
+        : undefined;
+
+    if (!data.Body.trim() && media.length === 0 && !location) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["Body"],
+        message: "Body field is required",
+      });
+      return z.NEVER;
+    }
+
+    return {
+      MessageSid: data.MessageSid,
+      From: data.From,
+      Body: data.Body,
+      media,
+      ...(location && { location }),
+    };
+  });
+
+export type TwilioInboundMessage = z.infer<typeof twilioMessageSchema>;
 
 export interface SendMessageResult {
   success: boolean;
   messageSid?: string;
+  messageSids?: string[];
+  segmentCount?: number;
+  failedSegment?: number;
   error?: string;
 }
 
@@ -1,6 +1,7 @@
 export interface KnowledgeEntry {
   title: string;
   source?: string | null;
+  mediaUrl?: string;
 }
 
 export function normalizeAssistantReply(
@@ -45,6 +46,22 @@ export function normalizeAssistantReply(
   return normalized;
 }
 
+export function selectCitedMedia(
+  content: string,
+  knowledgeEntries: KnowledgeEntry[]
+): string[] {
+  const mediaUrls = knowledgeEntries.flatMap((entry) => {
+    const source = entry.source?.trim().replace(/\/+$/, "");
+    const mediaUrl = entry.mediaUrl?.trim();
+    if (!source || !isHttpUrl(source) || !mediaUrl || !isHttpUrl(mediaUrl)) {
+      return [];
+    }
+    return content.includes(source) ? [mediaUrl] : [];
+  });
+
+  return [...new Set(mediaUrls)];
+}
+
 function resolveUrl(link: string, candidates: string[]): string | null {
   const trimmed = link.trim();
 
@@ -50,19 +50,18 @@ describe("server e2e", () => {
           "content-type": "application/json",
         },
         body: JSON.stringify({
+          MessageSid: "SM00000000000000000000000000000001",
           From: "whatsapp:+15550001111",
           Body: "Hello e2e",
         }),
       });
 
       expect(whatsappResponse.status).toBe(200);
-      const body = await whatsappResponse.json();
-      expect(body).toEqual({
-        success: true,
-        messageSid: expect.stringMatching(/^SMFAKE-/),
-      });
+      expect(await whatsappResponse.text()).toBe("<Response></Response>");
 
-      expect(chromaQueries).toHaveLength(1);
+      await vi.waitFor(() => {
+        expect(chromaQueries).toHaveLength(1);
+      });
       expect(chromaQueries[0]?.queryTexts).toBeUndefined();
       expect(chromaQueries[0]?.queryEmbeddings?.[0]?.length).toBeGreaterThan(0);
     } finally {
@@ -0,0 +1,312 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { buildApp } from "../../src/app.js";
+
+const ADMIN_TOKEN = "test-admin-token-123456";
+
+const createAdminTestApp = async () => {
+  const listConversations = vi.fn(async () => [
+    {
+      conversationId: "whatsapp:+15551234567",
+      lastActivityAt: "2024-05-01T10:00:00.000Z",
+      messageCount: 4,
+    },
+  ]);
+  const findConversationHistory = vi.fn(
+    async (): Promise<Array<{ role: string; content: string }> | null> => [
+      { role: "system", content: "System" },
+      { role: "user", content: "Hello" },
+    ]
+  );
+  const resetConversation = vi.fn(async () => undefined);
+  const recordMessage = vi.fn(async () => undefined);
+  const generateReply = vi.fn();
+  const sendMessage = vi.fn(async () => ({
+    success: true,
+    messageSid: "SMSTAFF",
+  }));
+
+  const app = await buildApp({
+    openAIService: {
+      generateReply,
+      resetConversation,
+      findConversationHistory,
+      listConversations,
+      recordMessage,
+    },
+    twilioService: {
+      sendWhatsAppMessage: vi.fn(),
+      sendMessage,
+    },
+    adminApiToken: ADMIN_TOKEN,
+  });
+
+  return {
+    app,
+    listConversations,
+    findConversationHistory,
+    resetConversation,
+    recordMessage,
+    generateReply,
+    sendMessage,
+  };
+};
+
+const authorization = { authorization: `Bearer ${ADMIN_TOKEN}` };
+
+describe("admin conversations API", () => {
+  it("rejects requests without a valid bearer token", async () => {
+    const { app, listConversations } = await createAdminTestApp();
+
+    const missing = await app.inject({
+      method: "GET",
+      url: "/admin/conversations",
+    });
+    const wrong = await app.inject({
+      method: "GET",
+      url: "/admin/conversations",
+      headers: { authorization: "Bearer wrong-token" },
+    });
+
+    expect(missing.statusCode).toBe(401);
+    expect(wrong.statusCode).toBe(401);
+    expect(wrong.json()).toEqual({ error: "Unauthorized" });
+    expect(listConversations).not.toHaveBeenCalled();
+
+    await app.close();
+  });
+
+  it("lists conversations", async () => {
+    const { app } = await createAdminTestApp();
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/admin/conversations",
+      headers: authorization,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      conversations: [
+        {
+          conversationId: "whatsapp:+15551234567",
+          lastActivityAt: "2024-05-01T10:00:00.000Z",
+          messageCount: 4,
+        },
+      ],
+    });
+
+    await app.close();
+  });
+
+  it("returns the full history of one conversation", async () => {
+    const { app, findConversationHistory } = await createAdminTestApp();
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/admin/conversations/${encodeURIComponent("whatsapp:+15551234567")}`,
+      headers: authorization,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(findConversationHistory).toHaveBeenCalledWith(
+      "whatsapp:+15551234567"
+    );
+    expect(response.json()).toEqual({
+      conversationId: "whatsapp:+15551234567",
+      messages: [
+        { role: "system", content: "System" },
+        { role: "user", content: "Hello" },
+      ],
+      lead: null,
+      sessionWindow: null,
+    });
+
+    await app.close();
+  });
+
+  it("returns 404 for a conversation that does not exist", async () => {
+    const { app, findConversationHistory } = await createAdminTestApp();
+    findConversationHistory.mockResolvedValueOnce(null);
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/admin/conversations/whatsapp%3A%2B15550000000",
+      headers: authorization,
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({ error: "Conversation not found" });
+
+    await app.close();
+  });
+
+  it("exposes extracted leads", async () => {
+    const lead = {
+      conversationId: "whatsapp:+15551234567",
+      participants: 2,
+      workshopType: "foraging_and_imprint",
+      genderForm: "female",
+      requestedDate: "21/06",
+      dayType: "friday",
+      complete: true,
+      missingFields: [],
+      updatedAt: "2024-06-01T10:00:00.000Z",
+    };
+    const app = await buildApp({
+      openAIService: {
+        generateReply: vi.fn(),
+        resetConversation: vi.fn(),
+        getConversationHistory: vi.fn(),
+        listConversations: vi.fn(),
+        recordMessage: vi.fn(),
+      },
+      twilioService: {
+        sendWhatsAppMessage: vi.fn(),
+      },
+      adminApiToken: ADMIN_TOKEN,
+      leadExtractionService: {
+        extractLead: vi.fn(),
+        getLead: (conversationId: string) =>
+          conversationId === lead.conversationId ? lead : null,
+        listLeads: () => [lead],
+      },
+    });
+
+    const list = await app.inject({
+      method: "GET",
+      url: "/admin/leads",
+      headers: authorization,
+    });
+    expect(list.statusCode).toBe(200);
+    expect(list.json()).toEqual({ leads: [lead] });
+
+    const found = await app.inject({
+      method: "GET",
+      url: `/admin/conversations/${encodeURIComponent(lead.conversationId)}/lead`,
+      headers: authorization,
+    });
+    expect(found.statusCode).toBe(200);
+    expect(found.json()).toEqual({ lead });
+
+    const missing = await app.inject({
+      method: "GET",
+      url: `/admin/conversations/${encodeURIComponent("whatsapp:+15550000000")}/lead`,
+      headers: authorization,
+    });
+    expect(missing.statusCode).toBe(404);
+
+    await app.close();
+  });
+
+  it("resets a conversation", async () => {
+    const { app, resetConversation } = await createAdminTestApp();
+
+    const response = await app.inject({
+      method: "POST",
+      url: `/admin/conversations/${encodeURIComponent("whatsapp:+15551234567")}/reset`,
+      headers: authorization,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ success: true });
+    expect(resetConversation).toHaveBeenCalledWith("whatsapp:+15551234567");
+
+    await app.close();
+  });
+
+  it("lets staff take over, reply and release a conversation", async () => {
+    const { app, recordMessage, generateReply, sendMessage } =
+      await createAdminTestApp();
+    const conversationId = "whatsapp:+15551234567";
+    const basePath = `/admin/conversations/${encodeURIComponent(conversationId)}`;
+
+    const takeOver = await app.inject({
+      method: "PUT",
+      url: `${basePath}/mode`,
+      headers: authorization,
+      payload: { mode: "human" },
+    });
+    expect(takeOver.statusCode).toBe(200);
+    expect(takeOver.json()).toMatchObject({ conversationId, mode: "human" });
+
+    await app.inject({
+      method: "POST",
+      url: "/whatsapp",
+      payload: {
+        MessageSid: "SM00000000000000000000000000000001",
+        From: conversationId,
+        Body: "Can we come today?",
+      },
+    });
+    await vi.waitFor(() => {
+      expect(recordMessage).toHaveBeenCalledWith(conversationId, {
+        role: "user",
+        content: "Can we come today?",
+      });
+    });
+    expect(generateReply).not.toHaveBeenCalled();
+
+    const staffReply = await app.inject({
+      method: "POST",
+      url: `${basePath}/messages`,
+      headers: authorization,
+      payload: { body: "Yes, see you at 18:00" },
+    });
+    expect(staffReply.statusCode).toBe(200);
+    expect(staffReply.json()).toMatchObject({
+      success: true,
+      messageSid: "SMSTAFF",
+      mode: "human",
+    });
+    expect(sendMessage).toHaveBeenCalledWith(conversationId, {
+      body: "Yes, see you at 18:00",
+    });
+    expect(recordMessage).toHaveBeenCalledWith(conversationId, {
+      role: "assistant",
+      content: "Yes, see you at 18:00",
+    });
+
+    const release = await app.inject({
+      method: "PUT",
+      url: `${basePath}/mode`,
+      headers: authorization,
+      payload: { mode: "bot" },
+    });
+    expect(release.json()).toMatchObject({ mode: "bot", expiresAt: null });
+
+    const invalid = await app.inject({
+      method: "PUT",
+      url: `${basePath}/mode`,
+      headers: authorization,
+      payload: { mode: "robot" },
+    });
+    expect(invalid.statusCode).toBe(400);
+
+    await app.close();
+  });
+
+  it("does not expose admin routes without a configured token", async () => {
+    const app = await buildApp({
+      openAIService: {
+        generateReply: vi.fn(),
+        resetConversation: vi.fn(),
+        getConversationHistory: vi.fn(),
+        listConversations: vi.fn(),
+      },
+      twilioService: {
+        sendWhatsAppMessage: vi.fn(),
+      },
+    });
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/admin/conversations",
+      headers: authorization,
+    });
+
+    expect(response.statusCode).toBe(404);
+
+    await app.close();
+  });
+});
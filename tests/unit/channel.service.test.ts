@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  conversationIdFor,
+  createChannelRegistry,
+  parseConversationId,
+} from "../../src/services/messaging/channel.js";
+import {
+  createSmsChannel,
+  createWhatsAppChannel,
+} from "../../src/services/messaging/twilioChannels.js";
+
+const createTwilioService = () => ({
+  sendMessage: vi.fn(async () => ({ success: true, messageSid: "SM1" })),
+});
+
+describe("conversation ids", () => {
+  it("namespaces addresses per channel", () => {
+    expect(conversationIdFor("sms", "+15550001111")).toBe("sms:+15550001111");
+    expect(parseConversationId("web:session-1")).toEqual({
+      channel: "web",
+      address: "session-1",
+    });
+    expect(parseConversationId("+15550001111")).toBeNull();
+    expect(parseConversationId("telegram:42")).toBeNull();
+  });
+});
+
+describe("Twilio channels", () => {
+  it("keeps WhatsApp conversation ids and adds the prefix when sending", async () => {
+    const twilioService = createTwilioService();
+    const channel = createWhatsAppChannel({ twilioService });
+
+    const parsed = channel.parseInbound({
+      MessageSid: "SM100",
+      From: "whatsapp:+15550001111",
+      Body: "Hello",
+    });
+
+    expect(parsed).toEqual({
+      success: true,
+      message: { messageSid: "SM100", address: "+15550001111", body: "Hello" },
+    });
+
+    await channel.send("+15550001111", { body: "Hi" });
+    expect(twilioService.sendMessage).toHaveBeenCalledWith(
+      "whatsapp:+15550001111",
+      { body: "Hi" }
+    );
+  });
+
+  it("reports invalid SMS payloads", () => {
+    const channel = createSmsChannel({ twilioService: createTwilioService() });
+
+    const parsed = channel.parseInbound({ From: "+15550001111" });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.success === false && parsed.details).toHaveProperty(
+      "MessageSid"
+    );
+  });
+});
+
+describe("createChannelRegistry", () => {
+  it("routes by conversation id and drops media the channel cannot carry", async () => {
+    const whatsApp = createTwilioService();
+    const sms = createTwilioService();
+    const registry = createChannelRegistry([
+      createWhatsAppChannel({ twilioService: whatsApp }),
+      createSmsChannel({ twilioService: sms }),
+    ]);
+    const message = {
+      body: "Our studio",
+      mediaUrls: ["https://example.com/map.png"],
+    };
+
+    await registry.send("whatsapp:+15550001111", message);
+    await registry.send("sms:+15550002222", message);
+
+    expect(whatsApp.sendMessage).toHaveBeenCalledWith(
+      "whatsapp:+15550001111",
+      message
+    );
+    expect(sms.sendMessage).toHaveBeenCalledWith("+15550002222", {
+      body: "Our studio",
+    });
+  });
+
+  it("fails sends to conversations without a configured channel", async () => {
+    const registry = createChannelRegistry([
+      createWhatsAppChannel({ twilioService: createTwilioService() }),
+    ]);
+
+    const result = await registry.send("sms:+15550002222", { body: "Hi" });
+
+    expect(result).toEqual({
+      success: false,
+      error: "No channel configured for conversation sms:+15550002222",
+    });
+  });
+
+  it("rejects duplicate channel names", () => {
+    const twilioService = createTwilioService();
+
+    expect(() =>
+      createChannelRegistry([
+        createSmsChannel({ twilioService }),
+        createSmsChannel({ twilioService }),
+      ])
+    ).toThrow("Channel sms is registered twice");
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const chromaMocks = vi.hoisted(() => ({
+  chromaClientMock: vi.fn(),
+  cloudClientMock: vi.fn(),
+}));
+
+vi.mock("chromadb", () => ({
+  ChromaClient: chromaMocks.chromaClientMock,
+  CloudClient: chromaMocks.cloudClientMock,
+}));
+
+import {
+  chromaClientOptionsFromEnvironment,
+  createChromaClient,
+} from "../../src/clients/chromadb";
+
+const baseEnvironment = {
+  CHROMA_MODE: "cloud" as const,
+  CHROMA_URL: undefined,
+  CHROMA_AUTH_TOKEN: undefined,
+  CHROMA_AUTH_HEADER: "Authorization" as const,
+  CHROMA_API_KEY: "ck-test",
+  CHROMA_TENANT: "tenant",
+  CHROMA_DATABASE: "database",
+};
+
+describe("chromadb client", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("creates a CloudClient in cloud mode", () => {
+    createChromaClient(chromaClientOptionsFromEnvironment(baseEnvironment));
+
+    expect(chromaMocks.cloudClientMock).toHaveBeenCalledWith({
+      apiKey: "ck-test",
+      tenant: "tenant",
+      database: "database",
+    });
+    expect(chromaMocks.chromaClientMock).not.toHaveBeenCalled();
+  });
+
+  it("connects to a self-hosted server with a bearer token", () => {
+    createChromaClient(
+      chromaClientOptionsFromEnvironment({
+        ...baseEnvironment,
+        CHROMA_MODE: "server",
+        CHROMA_URL: "https://chroma.up.railway.app",
+        CHROMA_AUTH_TOKEN: "secret",
+        CHROMA_API_KEY: "",
+        CHROMA_TENANT: "",
+        CHROMA_DATABASE: "",
+      })
+    );
+
+    expect(chromaMocks.chromaClientMock).toHaveBeenCalledWith({
+      host: "chroma.up.railway.app",
+      port: 443,
+      ssl: true,
+      headers: { Authorization: "Bearer secret" },
+    });
+    expect(chromaMocks.cloudClientMock).not.toHaveBeenCalled();
+  });
+
+  it("supports the X-Chroma-Token header, explicit ports and tenants", () => {
+    createChromaClient({
+      mode: "server",
+      url: "http://chroma.railway.internal:8000",
+      authToken: "secret",
+      authHeader: "X-Chroma-Token",
+      tenant: "studio",
+      database: "kb",
+    });
+
+    expect(chromaMocks.chromaClientMock).toHaveBeenCalledWith({
+      host: "chroma.railway.internal",
+      port: 8000,
+      ssl: false,
+      tenant: "studio",
+      database: "kb",
+      headers: { "X-Chroma-Token": "secret" },
+    });
+  });
+
+  it("rejects server URLs with a path the client would drop", () => {
+    expect(() =>
+      createChromaClient({
+        mode: "server",
+        url: "https://proxy.example.com/chroma",
+      })
+    ).toThrow("must not include a path");
+    expect(chromaMocks.chromaClientMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
-import { normalizeAssistantReply } from "../../src/utils/contentNormalizer";
+import {
+  normalizeAssistantReply,
+  selectCitedMedia,
+} from "../../src/utils/contentNormalizer";
 
 describe("ContentNormalizer", () => {
   it("should normalize links with source map", () => {
@@ -28,4 +31,32 @@ describe("ContentNormalizer", () => {
     const normalized = normalizeAssistantReply(content, []);
     expect(normalized).toBe(content);
   });
+
+  it("should select media only for entries cited in the reply", () => {
+    const knowledgeEntries = [
+      {
+        title: "Location",
+        source: "https://example.com/contact/",
+        mediaUrl: "https://example.com/map.png",
+      },
+      {
+        title: "Gallery",
+        source: "https://example.com/gallery",
+        mediaUrl: "https://example.com/gallery.jpg",
+      },
+      { title: "Prices", source: "https://example.com/prices" },
+      {
+        title: "Local file",
+        source: "faq.md",
+        mediaUrl: "https://example.com/faq.png",
+      },
+    ];
+
+    const media = selectCitedMedia(
+      "We are here:\nhttps://example.com/contact\nPrices:\nhttps://example.com/prices",
+      knowledgeEntries
+    );
+
+    expect(media).toEqual(["https://example.com/map.png"]);
+  });
 });
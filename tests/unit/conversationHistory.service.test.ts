@@ -3,6 +3,13 @@ import {
   createConversationHistoryService,
   type ConversationHistoryService,
 } from "../../src/services/ai/conversationHistory";
+import { createInMemoryConversationStore } from "../../src/services/ai/conversationStore";
+import {
+  createLlmConversationSummarizer,
+  isSummaryMessage,
+  parseSummaryMessage,
+} from "../../src/services/ai/conversationCompaction";
+import { createFakeOpenAIClient } from "../../src/clients/openai.fake";
 import type { Tiktoken } from "tiktoken";
 import type OpenAI from "openai";
 
@@ -25,16 +32,37 @@ describe("ConversationHistoryService", () => {
     });
   });
 
-  it("should initialize with system prompt", () => {
-    const messages = service.getMessages("test-id");
+  it("should initialize with system prompt", async () => {
+    const messages = await service.getMessages("test-id");
     expect(messages).toHaveLength(1);
     expect(messages[0].role).toBe("system");
     expect(messages[0].content).toBe("System prompt");
   });
 
-  it("should add messages correctly", () => {
-    service.addMessage("test-id", { role: "user", content: "Hello" });
-    const messages = service.getMessages("test-id");
+  it("should find stored conversations without creating unknown ones", async () => {
+    const store = createInMemoryConversationStore();
+    await store.save("stored-id", [{ role: "user", content: "Hello" }]);
+    const history = createConversationHistoryService({
+      model: "gpt-4",
+      tokenLimit: 100,
+      systemPrompt: "System prompt",
+      tokenizer: tokenizer as unknown as Tiktoken,
+      store,
+    });
+
+    expect(await history.findMessages("unknown-id")).toBeNull();
+    expect(await history.findMessages("stored-id")).toEqual([
+      { role: "system", content: "System prompt" },
+      { role: "user", content: "Hello" },
+    ]);
+    expect(await store.list()).toHaveLength(1);
+    expect(await history.getMessages("unknown-id")).toHaveLength(1);
+    expect(await history.findMessages("unknown-id")).toHaveLength(1);
+  });
+
+  it("should add messages correctly", async () => {
+    await service.addMessage("test-id", { role: "user", content: "Hello" });
+    const messages = await service.getMessages("test-id");
     expect(messages).toHaveLength(2);
     expect(messages[1].content).toBe("Hello");
   });
@@ -46,26 +74,190 @@ describe("ConversationHistoryService", () => {
     ];
 
     const count = service.countTokens(messages);
-    expect(count).toBe(10); // 5 + 5 based on mock tokenizer
+    // (3 + "user" + "Hello") + (3 + "assistant" + "World") + 3 reply priming
+    expect(count).toBe(32);
   });
 
-  it("should trim context when exceeding limit", () => {
-    service.addMessage("test-id", { role: "user", content: "123456" });
-    service.addMessage("test-id", { role: "assistant", content: "123456" });
+  it("should trim context when exceeding limit", async () => {
+    await service.addMessage("test-id", { role: "user", content: "123456" });
+    await service.addMessage("test-id", {
+      role: "assistant",
+      content: "123456",
+    });
 
-    const trimmed = service.trimContext(service.getMessages("test-id"));
+    const trimmed = service.trimContext(await service.getMessages("test-id"));
     expect(trimmed).toBe(true);
 
-    const messages = service.getMessages("test-id");
+    const messages = await service.getMessages("test-id");
     expect(messages.length).toBeLessThan(3);
     expect(messages[0].role).toBe("system");
   });
 
-  it("should reset conversation", () => {
-    service.addMessage("test-id", { role: "user", content: "Hello" });
-    service.resetConversation("test-id");
-    const messages = service.getMessages("test-id");
+  it("should reset conversation", async () => {
+    await service.addMessage("test-id", { role: "user", content: "Hello" });
+    await service.resetConversation("test-id");
+    const messages = await service.getMessages("test-id");
     expect(messages).toHaveLength(1);
     expect(messages[0].role).toBe("system");
   });
+
+  it("should restore conversations from the store", async () => {
+    const store = createInMemoryConversationStore();
+    const firstInstance = createConversationHistoryService({
+      model: "gpt-4",
+      tokenLimit: 100,
+      systemPrompt: "System prompt",
+      tokenizer: tokenizer as unknown as Tiktoken,
+      store,
+    });
+
+    await firstInstance.addMessage("test-id", { role: "user", content: "Hi" });
+
+    const secondInstance = createConversationHistoryService({
+      model: "gpt-4",
+      tokenLimit: 100,
+      systemPrompt: "Updated prompt",
+      tokenizer: tokenizer as unknown as Tiktoken,
+      store,
+    });
+
+    const messages = await secondInstance.getMessages("test-id");
+    expect(messages).toHaveLength(2);
+    expect(messages[0].content).toBe("Updated prompt");
+    expect(messages[1].content).toBe("Hi");
+  });
+
+  it("should persist trimmed conversations", async () => {
+    const store = createInMemoryConversationStore();
+    const saveSpy = vi.spyOn(store, "save");
+    const trimmingService = createConversationHistoryService({
+      model: "gpt-4",
+      tokenLimit: 35,
+      systemPrompt: "Sys",
+      tokenizer: tokenizer as unknown as Tiktoken,
+      store,
+    });
+
+    await trimmingService.addMessage("test-id", {
+      role: "user",
+      content: "123456",
+    });
+    await trimmingService.addMessage("test-id", {
+      role: "assistant",
+      content: "12345",
+    });
+
+    const trimmed = await trimmingService.trimConversation("test-id");
+
+    expect(trimmed).toBe(true);
+    expect(saveSpy).toHaveBeenLastCalledWith("test-id", [
+      { role: "assistant", content: "12345" },
+    ]);
+  });
+
+  describe("summarize compaction", () => {
+    const wordTokenizer = {
+      encode: (text: string) => new Uint32Array(text.split(/\s+/).length),
+    };
+
+    const turns: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      { role: "user", content: "Hi, we are four people" },
+      { role: "assistant", content: "Lovely! Which workshop would you like?" },
+      { role: "user", content: "The pottery wheel workshop please" },
+      { role: "assistant", content: "Great choice, which date works for you?" },
+      { role: "user", content: "Is the twelfth of May free?" },
+    ];
+
+    const summaryStep = (overrides: Record<string, unknown>) => ({
+      content: JSON.stringify({
+        summary: "Booking a workshop",
+        participants: null,
+        workshop_type: null,
+        requested_date: null,
+        ...overrides,
+      }),
+    });
+
+    it("replaces evicted turns with a pinned summary and keeps the latest turns", async () => {
+      const onRequest = vi.fn();
+      const store = createInMemoryConversationStore();
+      const summarizingService = createConversationHistoryService({
+        model: "gpt-4",
+        tokenLimit: 50,
+        systemPrompt: "Sys",
+        tokenizer: wordTokenizer as unknown as Tiktoken,
+        store,
+        summarizer: createLlmConversationSummarizer({
+          client: createFakeOpenAIClient({
+            steps: [
+              summaryStep({ participants: 4 }),
+              summaryStep({ workshop_type: "wheel" }),
+            ],
+            onRequest,
+          }),
+          model: "gpt-4o-mini",
+        }),
+      });
+
+      for (const turn of turns.slice(0, 4)) {
+        await summarizingService.addMessage("test-id", turn);
+      }
+      expect(await summarizingService.trimConversation("test-id")).toBe(false);
+
+      await summarizingService.addMessage("test-id", turns[4]);
+      expect(await summarizingService.trimConversation("test-id")).toBe(true);
+
+      let messages = await summarizingService.getMessages("test-id");
+      expect(isSummaryMessage(messages[1])).toBe(true);
+      expect(messages.at(-1)).toEqual(turns[4]);
+      expect(parseSummaryMessage(messages[1])?.facts.participants).toBe(4);
+      expect(onRequest.mock.calls[0][0].messages[1].content).toContain(
+        "user: Hi, we are four people"
+      );
+      expect((await store.load("test-id"))?.[0]).toEqual(messages[1]);
+
+      await summarizingService.addMessage("test-id", {
+        role: "assistant",
+        content: "Yes, the twelfth of May has free slots in the morning",
+      });
+      await summarizingService.addMessage("test-id", {
+        role: "user",
+        content: "Perfect, book us at ten",
+      });
+      expect(await summarizingService.trimConversation("test-id")).toBe(true);
+
+      messages = await summarizingService.getMessages("test-id");
+      expect(messages.filter(isSummaryMessage)).toHaveLength(1);
+      expect(parseSummaryMessage(messages[1])?.facts).toEqual({
+        participants: 4,
+        workshopType: "wheel",
+        requestedDate: null,
+      });
+      expect(onRequest.mock.calls[1][0].messages[1].content).toContain(
+        'Pinned facts: {"participants":4'
+      );
+      expect(messages.at(-1)?.content).toBe("Perfect, book us at ten");
+    });
+
+    it("falls back to dropping the oldest turns when summarization fails", async () => {
+      const summarize = vi.fn().mockRejectedValue(new Error("timeout"));
+      const summarizingService = createConversationHistoryService({
+        model: "gpt-4",
+        tokenLimit: 20,
+        systemPrompt: "Sys",
+        tokenizer: wordTokenizer as unknown as Tiktoken,
+        summarizer: { summarize },
+      });
+
+      for (const turn of turns) {
+        await summarizingService.addMessage("test-id", turn);
+      }
+
+      expect(await summarizingService.trimConversation("test-id")).toBe(true);
+      const messages = await summarizingService.getMessages("test-id");
+      expect(summarize).toHaveBeenCalledOnce();
+      expect(messages.some(isSummaryMessage)).toBe(false);
+      expect(messages.at(-1)).toEqual(turns[4]);
+    });
+  });
 });
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import {
+  createFileConversationStore,
+  createInMemoryConversationStore,
+} from "../../src/services/ai/conversationStore";
+
+describe("createInMemoryConversationStore", () => {
+  it("saves, loads and deletes conversations", async () => {
+    const store = createInMemoryConversationStore();
+
+    expect(await store.load("whatsapp:+15550001111")).toBeNull();
+
+    await store.save("whatsapp:+15550001111", [
+      { role: "user", content: "Hello" },
+    ]);
+    expect(await store.load("whatsapp:+15550001111")).toEqual([
+      { role: "user", content: "Hello" },
+    ]);
+
+    expect(await store.list()).toEqual([
+      {
+        conversationId: "whatsapp:+15550001111",
+        lastActivityAt: expect.any(String),
+        messageCount: 1,
+      },
+    ]);
+
+    await store.delete("whatsapp:+15550001111");
+    expect(await store.load("whatsapp:+15550001111")).toBeNull();
+  });
+});
+
+describe("createFileConversationStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "conversation-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("persists conversations across store instances", async () => {
+    const conversationId = "whatsapp:+15550001111";
+    const firstStore = createFileConversationStore({ directory });
+
+    await firstStore.save(conversationId, [
+      { role: "user", content: "לכמה אנשים?" },
+      { role: "assistant", content: "4" },
+    ]);
+
+    const secondStore = createFileConversationStore({ directory });
+    expect(await secondStore.load(conversationId)).toEqual([
+      { role: "user", content: "לכמה אנשים?" },
+      { role: "assistant", content: "4" },
+    ]);
+    expect(await secondStore.list()).toEqual([
+      {
+        conversationId,
+        lastActivityAt: expect.any(String),
+        messageCount: 2,
+      },
+    ]);
+    expect(await readdir(directory)).toEqual([
+      `${encodeURIComponent(conversationId)}.json`,
+    ]);
+  });
+
+  it("returns null for unknown conversations and ignores missing deletes", async () => {
+    const store = createFileConversationStore({
+      directory: path.join(directory, "nested"),
+    });
+
+    expect(await store.load("missing")).toBeNull();
+    expect(await store.list()).toEqual([]);
+    await expect(store.delete("missing")).resolves.toBeUndefined();
+  });
+});
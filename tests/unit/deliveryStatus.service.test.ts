@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import { createDeliveryStatusStore } from "../../src/services/messaging/deliveryStatus.js";
+import { twilioConversationIdOf } from "../../src/services/messaging/twilioChannels.js";
+
+describe("createDeliveryStatusStore", () => {
+  it("records transitions for tracked messages", () => {
+    let current = Date.parse("2024-05-01T10:00:00.000Z");
+    const store = createDeliveryStatusStore({ now: () => current });
+
+    store.track("SM1", "whatsapp:+15550001111");
+    current += 1000;
+    store.recordStatus({ messageSid: "SM1", status: "sent" });
+    current += 1000;
+    const record = store.recordStatus({ messageSid: "SM1", status: "read" });
+
+    expect(record).toEqual({
+      messageSid: "SM1",
+      conversationId: "whatsapp:+15550001111",
+      status: "read",
+      updatedAt: "2024-05-01T10:00:02.000Z",
+      transitions: [
+        { status: "queued", at: "2024-05-01T10:00:00.000Z" },
+        { status: "sent", at: "2024-05-01T10:00:01.000Z" },
+        { status: "read", at: "2024-05-01T10:00:02.000Z" },
+      ],
+    });
+  });
+
+  it("keeps the furthest status when callbacks arrive out of order", () => {
+    const store = createDeliveryStatusStore();
+
+    store.track("SM1", "whatsapp:+15550001111");
+    store.recordStatus({ messageSid: "SM1", status: "delivered" });
+    const record = store.recordStatus({ messageSid: "SM1", status: "sent" });
+
+    expect(record.status).toBe("delivered");
+    expect(record.transitions.map((transition) => transition.status)).toEqual([
+      "queued",
+      "delivered",
+      "sent",
+    ]);
+  });
+
+  it("stores failures for untracked messages with the error code", () => {
+    const store = createDeliveryStatusStore();
+
+    store.recordStatus({
+      messageSid: "SM2",
+      status: "undelivered",
+      to: "whatsapp:+15550002222",
+      errorCode: "63016",
+      errorMessage: "Outside the allowed window",
+    });
+
+    expect(store.get("SM2")).toMatchObject({
+      conversationId: "whatsapp:+15550002222",
+      status: "undelivered",
+      errorCode: "63016",
+      errorMessage: "Outside the allowed window",
+    });
+    expect(store.get("SM3")).toBeNull();
+  });
+
+  it("lists a conversation's messages newest first and evicts the oldest", () => {
+    const store = createDeliveryStatusStore({ maxEntries: 2 });
+
+    store.track("SM1", "whatsapp:+15550001111");
+    store.track("SM2", "whatsapp:+15550001111");
+    store.track("SM3", "whatsapp:+15550001111");
+
+    expect(
+      store
+        .listForConversation("whatsapp:+15550001111")
+        .map((record) => record.messageSid)
+    ).toEqual(["SM3", "SM2"]);
+  });
+
+  it("files untracked callbacks under the sending channel's conversation id", () => {
+    const store = createDeliveryStatusStore({
+      conversationIdOf: twilioConversationIdOf,
+    });
+
+    store.recordStatus({
+      messageSid: "SM4",
+      status: "sent",
+      to: "+15550003333",
+    });
+    store.recordStatus({
+      messageSid: "SM5",
+      status: "read",
+      to: "whatsapp:+15550003333",
+    });
+
+    expect(
+      store
+        .listForConversation("sms:+15550003333")
+        .map((record) => record.messageSid)
+    ).toEqual(["SM4"]);
+    expect(
+      store
+        .listForConversation("whatsapp:+15550003333")
+        .map((record) => record.messageSid)
+    ).toEqual(["SM5"]);
+  });
+});
@@ -0,0 +1,113 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createEmbeddingCache,
+  createFileEmbeddingStore,
+} from "../../src/services/ai/embeddingCache.js";
+
+const fakeEmbed = () =>
+  vi.fn(async (texts: string[]) => texts.map((text) => [text.length, 1]));
+
+describe("createEmbeddingCache", () => {
+  const directories: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      directories
+        .splice(0)
+        .map((directory) => rm(directory, { recursive: true, force: true }))
+    );
+  });
+
+  it("serves repeated texts from memory using normalized keys", async () => {
+    const embed = fakeEmbed();
+    const cache = createEmbeddingCache({
+      model: "text-embedding-3-small",
+      maxEntries: 10,
+    });
+    const cachedEmbed = cache.wrap(embed);
+
+    await cachedEmbed(["Thanks!"]);
+    const second = await cachedEmbed(["  thanks! ", "Hello"]);
+
+    expect(second).toEqual([
+      [7, 1],
+      [5, 1],
+    ]);
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed).toHaveBeenLastCalledWith(["Hello"]);
+    expect(cache.stats()).toEqual({
+      hits: 1,
+      misses: 2,
+      size: 2,
+      maxEntries: 10,
+    });
+  });
+
+  it("evicts the least recently used entry once full", async () => {
+    const embed = fakeEmbed();
+    const cachedEmbed = createEmbeddingCache({
+      model: "text-embedding-3-small",
+      maxEntries: 2,
+    }).wrap(embed);
+
+    await cachedEmbed(["a"]);
+    await cachedEmbed(["b"]);
+    await cachedEmbed(["a"]);
+    await cachedEmbed(["c"]);
+    embed.mockClear();
+
+    await cachedEmbed(["a", "b"]);
+
+    expect(embed).toHaveBeenCalledWith(["b"]);
+  });
+
+  it("keys entries by embedding model", async () => {
+    const embed = fakeEmbed();
+    const store = {
+      load: vi.fn(async () => []),
+      append: vi.fn(async () => undefined),
+      rewrite: vi.fn(async () => undefined),
+    };
+
+    await createEmbeddingCache({ model: "model-a", maxEntries: 5, store }).wrap(
+      embed
+    )(["hi"]);
+    await createEmbeddingCache({ model: "model-b", maxEntries: 5, store }).wrap(
+      embed
+    )(["hi"]);
+
+    const [[first], [second]] = store.append.mock.calls as unknown as Array<
+      [Array<{ key: string }>]
+    >;
+    expect(first?.[0]?.key).not.toBe(second?.[0]?.key);
+  });
+
+  it("restores entries from the persistent store", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "embeddings-"));
+    directories.push(directory);
+    const filePath = path.join(directory, "cache.jsonl");
+
+    await createEmbeddingCache({
+      model: "text-embedding-3-small",
+      maxEntries: 10,
+      store: createFileEmbeddingStore({ filePath }),
+    }).wrap(fakeEmbed())(["שלום"]);
+
+    const embed = fakeEmbed();
+    const restored = createEmbeddingCache({
+      model: "text-embedding-3-small",
+      maxEntries: 10,
+      store: createFileEmbeddingStore({ filePath }),
+    });
+
+    await expect(restored.wrap(embed)(["שלום"])).resolves.toEqual([[4, 1]]);
+    expect(embed).not.toHaveBeenCalled();
+    expect((await readFile(filePath, "utf8")).trim().split("\n")).toHaveLength(
+      1
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createHandoffService } from "../../src/services/messaging/handoff.js";
+
+const createService = (now: () => number = () => 0) => {
+  const sendMessage = vi.fn(async () => ({
+    success: true,
+    messageSid: "SMSTAFF",
+  }));
+  const recordMessage = vi.fn(async () => undefined);
+
+  const service = createHandoffService({
+    humanTimeoutMs: 1000,
+    sendMessage,
+    recordMessage,
+    now,
+  });
+
+  return { service, sendMessage, recordMessage };
+};
+
+describe("createHandoffService", () => {
+  it("defaults every conversation to bot mode", () => {
+    const { service } = createService();
+
+    expect(service.getMode("whatsapp:+1").mode).toBe("bot");
+    expect(service.isBotActive("whatsapp:+1")).toBe(true);
+  });
+
+  it("returns to bot mode after the human timeout", () => {
+    let current = 0;
+    const { service } = createService(() => current);
+
+    const state = service.setMode("whatsapp:+1", "human");
+    expect(state.expiresAt).toBe(new Date(1000).toISOString());
+    expect(service.isBotActive("whatsapp:+1")).toBe(false);
+
+    current = 1000;
+    expect(service.getMode("whatsapp:+1").mode).toBe("bot");
+  });
+
+  it("keeps paused conversations muted until released", () => {
+    let current = 0;
+    const { service } = createService(() => current);
+
+    service.setMode("whatsapp:+1", "paused");
+    current = 1_000_000;
+    expect(service.getMode("whatsapp:+1")).toMatchObject({
+      mode: "paused",
+      expiresAt: null,
+    });
+
+    service.setMode("whatsapp:+1", "bot");
+    expect(service.isBotActive("whatsapp:+1")).toBe(true);
+  });
+
+  it("sends staff replies, records them and switches to human mode", async () => {
+    const { service, sendMessage, recordMessage } = createService();
+
+    const result = await service.sendStaffReply("whatsapp:+1", "נבדוק ונחזור");
+
+    expect(result).toEqual({ success: true, messageSid: "SMSTAFF" });
+    expect(sendMessage).toHaveBeenCalledWith("whatsapp:+1", {
+      body: "נבדוק ונחזור",
+    });
+    expect(recordMessage).toHaveBeenCalledWith("whatsapp:+1", {
+      role: "assistant",
+      content: "נבדוק ונחזור",
+    });
+    expect(service.getMode("whatsapp:+1").mode).toBe("human");
+  });
+
+  it("does not record staff replies that failed to send", async () => {
+    const recordMessage = vi.fn();
+    const service = createHandoffService({
+      humanTimeoutMs: 1000,
+      sendMessage: vi.fn(async () => ({
+        success: false,
+        error: "Twilio down",
+      })),
+      recordMessage,
+    });
+
+    const result = await service.sendStaffReply("whatsapp:+1", "Hello");
+
+    expect(result.success).toBe(false);
+    expect(recordMessage).not.toHaveBeenCalled();
+    expect(service.isBotActive("whatsapp:+1")).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createHttpChannel } from "../../src/services/messaging/httpChannel.js";
+
+const token = "web-channel-token-123";
+
+describe("createHttpChannel", () => {
+  it("parses JSON messages and checks the bearer token", () => {
+    const channel = createHttpChannel({
+      webhookUrl: "https://widget.example.com/replies",
+      token,
+    });
+
+    expect(
+      channel.parseInbound({
+        sessionId: "visitor-1",
+        messageId: "m1",
+        text: " Hello ",
+      })
+    ).toEqual({
+      success: true,
+      message: { messageSid: "web-visitor-1-m1", address: "visitor-1", body: "Hello" },
+    });
+    expect(
+      channel.parseInbound({ sessionId: "a:b", messageId: "m1", text: "Hi" })
+        .success
+    ).toBe(false);
+
+    expect(channel.authenticate?.(`Bearer ${token}`)).toBe(true);
+    expect(channel.authenticate?.("Bearer wrong")).toBe(false);
+    expect(channel.authenticate?.(undefined)).toBe(false);
+  });
+
+  it("posts replies as ordered segments with media to the webhook", async () => {
+    const fetchImpl = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    const channel = createHttpChannel({
+      webhookUrl: "https://widget.example.com/replies",
+      token,
+      maxMessageLength: 20,
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+    });
+
+    const result = await channel.send("visitor-1", {
+      body: "First part here.\n\nSecond part here.",
+      mediaUrls: ["https://example.com/map.png"],
+    });
+
+    expect(result.success).toBe(true);
+    expect(fetchImpl).toHaveBeenCalledWith(
+      "https://widget.example.com/replies",
+      expect.objectContaining({
+        method: "POST",
+        headers: expect.objectContaining({ authorization: `Bearer ${token}` }),
+      })
+    );
+    const payload = JSON.parse(fetchImpl.mock.calls[0]?.[1].body);
+    expect(payload).toEqual({
+      sessionId: "visitor-1",
+      messageId: result.messageSid,
+      messages: ["First part here.", "Second part here."],
+      mediaUrls: ["https://example.com/map.png"],
+    });
+  });
+
+  it("reports webhook failures", async () => {
+    const channel = createHttpChannel({
+      webhookUrl: "https://widget.example.com/replies",
+      token,
+      fetchImpl: vi.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+      }) as unknown as typeof fetch,
+    });
+
+    await expect(channel.send("visitor-1", { body: "Hi" })).resolves.toEqual({
+      success: false,
+      error: "Web channel webhook responded with 503",
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createInboundMediaService } from "../../src/services/messaging/inboundMedia.js";
+
+const downloadMedia = vi.fn(async (url: string) => ({
+  contentType: "application/octet-stream",
+  data: Buffer.from(url),
+}));
+
+describe("createInboundMediaService", () => {
+  it("turns images into data URLs and transcribes voice notes", async () => {
+    const transcribe = vi.fn(async () => "Do you have a slot on Friday?");
+    const service = createInboundMediaService({
+      downloadMedia,
+      transcriber: { transcribe },
+    });
+
+    const prepared = await service.prepare("whatsapp:+1", {
+      body: "",
+      media: [
+        { url: "https://media/1", contentType: "image/jpeg" },
+        { url: "https://media/2", contentType: "audio/ogg" },
+      ],
+      location: {
+        latitude: 32.08,
+        longitude: 34.78,
+        label: "Studio",
+      },
+    });
+
+    expect(prepared).toEqual({
+      text: [
+        "[Location: 32.08, 34.78 (Studio)]",
+        "[Image attached]",
+        "[Voice note] Do you have a slot on Friday?",
+      ].join("\n"),
+      images: [
+        {
+          url: `data:image/jpeg;base64,${Buffer.from("https://media/1").toString("base64")}`,
+        },
+      ],
+      unsupported: [],
+    });
+    expect(transcribe).toHaveBeenCalledWith({
+      data: Buffer.from("https://media/2"),
+      contentType: "audio/ogg",
+    });
+  });
+
+  it("reports media it cannot handle as unsupported", async () => {
+    const service = createInboundMediaService({
+      downloadMedia: vi.fn(async () => {
+        throw new Error("Media download failed with status 404");
+      }),
+      imageInput: true,
+    });
+
+    const prepared = await service.prepare("whatsapp:+1", {
+      body: "Look",
+      media: [
+        { url: "https://media/1", contentType: "image/png" },
+        { url: "https://media/2", contentType: "audio/ogg" },
+        { url: "https://media/3", contentType: "video/mp4" },
+      ],
+    });
+
+    expect(prepared).toEqual({
+      text: "Look",
+      images: [],
+      unsupported: ["image", "audio", "video"],
+    });
+  });
+});
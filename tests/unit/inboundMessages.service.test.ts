@@ -0,0 +1,325 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createInboundMessageProcessor } from "../../src/services/messaging/inboundMessages.js";
+import { mediaFallbackReplies } from "../../src/prompts/mediaReplies.js";
+
+const createReply = (response: string) => ({
+  response,
+  tokens: {
+    totalTokens: 10,
+    usageTokens: 5,
+    requestTokens: 5,
+    conversationTokens: 0,
+    knowledgeTokens: 0,
+    userTokens: 5,
+    durationMs: 10,
+  },
+});
+
+describe("createInboundMessageProcessor", () => {
+  it("generates a reply and sends it back", async () => {
+    const generateSimpleResponse = vi.fn(async () => createReply("Hi!"));
+    const sendMessage = vi.fn(async () => ({
+      success: true,
+      messageSid: "SM123",
+    }));
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse,
+      sendMessage,
+    });
+
+    await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "Hello",
+      receivedAt: Date.now(),
+    });
+
+    expect(generateSimpleResponse).toHaveBeenCalledWith(
+      "whatsapp:+15550001111",
+      "Hello"
+    );
+    expect(sendMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      body: "Hi!",
+    });
+  });
+
+  it("attaches media cited by the reply", async () => {
+    const generateSimpleResponse = vi.fn(async () => ({
+      ...createReply("We are here:\nhttps://example.com/contact"),
+      mediaUrls: ["https://example.com/map.png"],
+    }));
+    const sendMessage = vi.fn(async () => ({
+      success: true,
+      messageSid: "SM123",
+      messageSids: ["SM123", "SM124"],
+    }));
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse,
+      sendMessage,
+    });
+
+    const result = await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "Where is the studio?",
+      receivedAt: Date.now(),
+    });
+
+    expect(sendMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      body: "We are here:\nhttps://example.com/contact",
+      mediaUrls: ["https://example.com/map.png"],
+    });
+    expect(result).toEqual({ replyMessageSid: "SM123" });
+  });
+
+  it("answers media it cannot read with a fallback reply", async () => {
+    const generateSimpleResponse = vi.fn();
+    const sendMessage = vi.fn(async () => ({
+      success: true,
+      messageSid: "SM123",
+    }));
+    const recordMessage = vi.fn(async () => undefined);
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse,
+      sendMessage,
+      recordMessage,
+    });
+
+    const result = await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "",
+      receivedAt: Date.now(),
+      media: [
+        { url: "https://api.twilio.com/media/1", contentType: "video/mp4" },
+      ],
+    });
+
+    expect(result).toEqual({ replyMessageSid: "SM123" });
+    expect(generateSimpleResponse).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      body: mediaFallbackReplies.video,
+    });
+    expect(recordMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      role: "user",
+      content: "[Unsupported video attachment]",
+    });
+  });
+
+  it("passes prepared images and text to the reply generator", async () => {
+    const generateSimpleResponse = vi.fn(async () => createReply("Nice!"));
+    const prepareContent = vi.fn(async () => ({
+      text: "Like this one\n[Image attached]",
+      images: [{ url: "data:image/jpeg;base64,AAAA" }],
+      unsupported: ["document" as const],
+    }));
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse,
+      sendMessage: vi.fn(async () => ({ success: true })),
+      prepareContent,
+    });
+
+    await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "Like this one",
+      receivedAt: Date.now(),
+      media: [
+        { url: "https://api.twilio.com/media/1", contentType: "image/jpeg" },
+        {
+          url: "https://api.twilio.com/media/2",
+          contentType: "application/pdf",
+        },
+      ],
+    });
+
+    expect(generateSimpleResponse).toHaveBeenCalledWith(
+      "whatsapp:+15550001111",
+      "Like this one\n[Image attached]\n[Unsupported document attachment]",
+      { images: [{ url: "data:image/jpeg;base64,AAAA" }] }
+    );
+  });
+
+  it("rejects when the reply cannot be sent", async () => {
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse: vi.fn(async () => createReply("Hi!")),
+      sendMessage: vi.fn(async () => ({
+        success: false,
+        error: "Twilio down",
+      })),
+    });
+
+    await expect(
+      processInboundMessage({
+        messageSid: "SM1",
+        from: "whatsapp:+15550001111",
+        body: "Hello",
+        receivedAt: Date.now(),
+      })
+    ).rejects.toThrow("Twilio down");
+  });
+
+  it("exports the conversation instead of replying on export keyword", async () => {
+    const generateSimpleResponse = vi.fn();
+    const sendMessage = vi.fn(async () => ({ success: true }));
+    const saveConversationCsv = vi.fn(async () => ({}));
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse,
+      sendMessage,
+      saveConversationCsv,
+      getConversationHistory: async () => [
+        { role: "system", content: "System" },
+        { role: "user", content: "Hello" },
+      ],
+    });
+
+    await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: " Export ",
+      receivedAt: Date.now(),
+    });
+
+    expect(generateSimpleResponse).not.toHaveBeenCalled();
+    expect(saveConversationCsv).toHaveBeenCalledWith("whatsapp:+15550001111", [
+      expect.objectContaining({ role: "user", content: "Hello" }),
+    ]);
+    expect(sendMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      body: "Conversation exported successfully to Google Drive.",
+    });
+  });
+
+  it("stores messages without replying while a human handles the conversation", async () => {
+    const generateSimpleResponse = vi.fn();
+    const sendMessage = vi.fn();
+    const recordMessage = vi.fn(async () => undefined);
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse,
+      sendMessage,
+      isBotActive: () => false,
+      recordMessage,
+    });
+
+    await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "Is Friday available?",
+      receivedAt: Date.now(),
+    });
+
+    expect(recordMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      role: "user",
+      content: "Is Friday available?",
+    });
+    expect(generateSimpleResponse).not.toHaveBeenCalled();
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it("stores media placeholders without downloading while a human handles the conversation", async () => {
+    const prepareContent = vi.fn();
+    const recordMessage = vi.fn(async () => undefined);
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse: vi.fn(),
+      sendMessage: vi.fn(),
+      isBotActive: () => false,
+      recordMessage,
+      prepareContent,
+    });
+
+    await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "Here is the venue",
+      receivedAt: Date.now(),
+      media: [
+        { url: "https://api.twilio.com/media/1", contentType: "audio/ogg" },
+        { url: "https://api.twilio.com/media/2", contentType: "image/jpeg" },
+        { url: "https://api.twilio.com/media/3", contentType: "video/mp4" },
+      ],
+    });
+
+    expect(prepareContent).not.toHaveBeenCalled();
+    expect(recordMessage).toHaveBeenCalledWith("whatsapp:+15550001111", {
+      role: "user",
+      content:
+        "Here is the venue\n[Voice note]\n[Image attached]\n[Unsupported video attachment]",
+    });
+  });
+
+  it("extracts the lead after replying and tolerates extraction failures", async () => {
+    const sendMessage = vi.fn(async () => ({
+      success: true,
+      messageSid: "SM123",
+    }));
+    const extractLead = vi.fn(async () => {
+      throw new Error("rate limited");
+    });
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse: vi.fn(async () => createReply("Hi!")),
+      sendMessage,
+      extractLead,
+    });
+
+    await expect(
+      processInboundMessage({
+        messageSid: "SM1",
+        from: "whatsapp:+15550001111",
+        body: "We are four people",
+        receivedAt: Date.now(),
+      })
+    ).resolves.toEqual({ replyMessageSid: "SM123" });
+
+    expect(extractLead).toHaveBeenCalledWith("whatsapp:+15550001111");
+    expect(sendMessage.mock.invocationCallOrder[0]).toBeLessThan(
+      extractLead.mock.invocationCallOrder[0] ?? 0
+    );
+  });
+
+  it("includes the lead in conversation exports", async () => {
+    const saveConversationCsv = vi.fn(async () => ({}));
+
+    const { processInboundMessage } = createInboundMessageProcessor({
+      generateSimpleResponse: vi.fn(),
+      sendMessage: vi.fn(async () => ({ success: true })),
+      saveConversationCsv,
+      getConversationHistory: async () => [{ role: "user", content: "Hello" }],
+      getLead: () => ({
+        conversationId: "whatsapp:+15550001111",
+        participants: 4,
+        workshopType: "wheel",
+        genderForm: "mixed",
+        requestedDate: "14/06",
+        dayType: "weekday",
+        complete: true,
+        missingFields: [],
+        updatedAt: "2024-06-01T10:00:00.000Z",
+      }),
+    });
+
+    await processInboundMessage({
+      messageSid: "SM1",
+      from: "whatsapp:+15550001111",
+      body: "export",
+      receivedAt: Date.now(),
+    });
+
+    expect(saveConversationCsv).toHaveBeenCalledWith("whatsapp:+15550001111", [
+      expect.objectContaining({ role: "user", content: "Hello" }),
+      {
+        role: "lead",
+        content:
+          "participants=4; workshop_type=wheel; gender_form=mixed; requested_date=14/06; day_type=weekday; complete=true",
+        timestamp: "2024-06-01T10:00:00.000Z",
+      },
+    ]);
+  });
+});
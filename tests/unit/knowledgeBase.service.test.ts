@@ -5,6 +5,10 @@ import {
 } from "../../src/services/ai/knowledgeBase";
 import type { ChromaClient } from "chromadb";
 import type OpenAI from "openai";
+import { createBm25Reranker } from "../../src/services/ai/knowledgeRanking";
+import { createHistoryWindowQueryBuilder } from "../../src/services/ai/knowledgeQuery";
+import { matchCannedResponseKeys } from "../../src/services/ai/cannedResponses";
+import { logger } from "../../src/logger";
 
 describe("KnowledgeBaseService", () => {
   let service: KnowledgeBaseService;
@@ -94,4 +98,320 @@ describe("KnowledgeBaseService", () => {
     const context = await service.buildKnowledgeContext("test-id", "query");
     expect(context).toBeNull();
   });
+
+  describe("relevance filtering and re-ranking", () => {
+    const createRankingService = (
+      queryResult: Record<string, unknown>,
+      options: Record<string, unknown> = {}
+    ) => {
+      const query = vi.fn().mockResolvedValue(queryResult);
+      const rankingService = createKnowledgeBaseService({
+        chromaClient: {
+          heartbeat: vi.fn().mockResolvedValue(Date.now()),
+          getOrCreateCollection: vi.fn().mockResolvedValue({
+            query,
+            get: vi.fn().mockResolvedValue({ documents: [], metadatas: [] }),
+          }),
+        } as unknown as ChromaClient,
+        chromaCollection: "test-collection",
+        embeddingModel: "text-embedding-3-small",
+        openAIApiKey: "test-key",
+        openaiClient: mockOpenAI as OpenAI,
+        ...options,
+      });
+      return { rankingService, query };
+    };
+
+    it("drops results above the distance cutoff and near-duplicates", async () => {
+      const info = vi.fn();
+      vi.spyOn(logger, "child").mockReturnValue({
+        info,
+        warn: vi.fn(),
+        error: vi.fn(),
+      } as unknown as ReturnType<typeof logger.child>);
+
+      const { rankingService } = createRankingService(
+        {
+          documents: [
+            [
+              "Wheel workshop price for two: 520",
+              "Wheel workshop price for two 520!",
+              "Parking near the studio",
+            ],
+          ],
+          metadatas: [
+            [
+              { title: "prices" },
+              { title: "prices-copy" },
+              { title: "parking" },
+            ],
+          ],
+          distances: [[0.2, 0.25, 0.9]],
+        },
+        { chromaMaxDistance: 0.5 }
+      );
+
+      const context = await rankingService.buildKnowledgeContext(
+        "test-id",
+        "how much is the wheel workshop?"
+      );
+
+      expect(context?.entries).toEqual([
+        { title: "prices", source: "unknown" },
+      ]);
+      expect(info).toHaveBeenCalledWith(
+        expect.objectContaining({
+          results: expect.arrayContaining([
+            expect.objectContaining({ title: "prices", kept: true }),
+            expect.objectContaining({
+              title: "prices-copy",
+              kept: false,
+              reason: "duplicate",
+            }),
+            expect.objectContaining({
+              title: "parking",
+              kept: false,
+              reason: "distance_above_threshold",
+            }),
+          ]),
+        }),
+        "chroma.query.ranked"
+      );
+
+      vi.restoreAllMocks();
+    });
+
+    it("returns null when every result is filtered out", async () => {
+      const { rankingService } = createRankingService(
+        {
+          documents: [["Opening hours"]],
+          metadatas: [[{ title: "hours" }]],
+          distances: [[1.4]],
+        },
+        { chromaMaxDistance: 0.5 }
+      );
+
+      await expect(
+        rankingService.buildKnowledgeContext("test-id", "tell me a joke")
+      ).resolves.toBeNull();
+    });
+
+    it("re-ranks a wider candidate set before truncating", async () => {
+      const { rankingService, query } = createRankingService(
+        {
+          documents: [
+            [
+              "General studio information",
+              "Shabbat bookings need staff approval",
+            ],
+          ],
+          metadatas: [[{ title: "about" }, { title: "response_shabbat" }]],
+          distances: [[0.3, 0.35]],
+        },
+        { chromaMaxResults: 1, reranker: createBm25Reranker() }
+      );
+
+      const context = await rankingService.buildKnowledgeContext(
+        "test-id",
+        "can we book on Shabbat?"
+      );
+
+      expect(query).toHaveBeenCalledWith(
+        expect.objectContaining({ nResults: 3 })
+      );
+      expect(context?.entries).toEqual([
+        { title: "response_shabbat", source: "unknown" },
+      ]);
+    });
+  });
+
+  it("merges the results of rewritten queries and logs them", async () => {
+    const info = vi.fn();
+    vi.spyOn(logger, "child").mockReturnValue({
+      info,
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as ReturnType<typeof logger.child>);
+
+    const query = vi.fn().mockResolvedValue({
+      ids: [
+        ["friday-hours", "prices"],
+        ["prices", "parking"],
+      ],
+      documents: [
+        ["Friday 09:00-14:00", "Prices by group size"],
+        ["Prices by group size", "Parking nearby"],
+      ],
+      metadatas: [
+        [{ title: "friday-hours" }, { title: "prices" }],
+        [{ title: "prices" }, { title: "parking" }],
+      ],
+      distances: [
+        [0.4, 0.6],
+        [0.2, 0.7],
+      ],
+    });
+    const embeddingsCreate = vi.fn().mockResolvedValue({
+      data: [{ embedding: [0.1, 0.2] }, { embedding: [0.3, 0.4] }],
+    });
+
+    const rewritingService = createKnowledgeBaseService({
+      chromaClient: {
+        heartbeat: vi.fn().mockResolvedValue(Date.now()),
+        getOrCreateCollection: vi.fn().mockResolvedValue({ query }),
+      } as unknown as ChromaClient,
+      chromaCollection: "test-collection",
+      embeddingModel: "text-embedding-3-small",
+      openAIApiKey: "test-key",
+      openaiClient: {
+        embeddings: { create: embeddingsCreate },
+      } as unknown as OpenAI,
+      queryBuilder: createHistoryWindowQueryBuilder(),
+    });
+
+    const context = await rewritingService.buildKnowledgeContext(
+      "test-id",
+      "what about Friday?",
+      {
+        history: [
+          { role: "user", content: "price for 4 people?" },
+          { role: "user", content: "what about Friday?" },
+        ],
+      }
+    );
+
+    expect(embeddingsCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        input: [
+          "what about Friday?",
+          "price for 4 people?\nwhat about Friday?",
+        ],
+      })
+    );
+    expect(context?.entries.map((entry) => entry.title)).toEqual([
+      "prices",
+      "friday-hours",
+      "parking",
+    ]);
+    expect(info).toHaveBeenCalledWith(
+      expect.objectContaining({
+        original: "what about Friday?",
+        queries: [
+          "what about Friday?",
+          "price for 4 people?\nwhat about Friday?",
+        ],
+      }),
+      "knowledge.query.rewritten"
+    );
+
+    vi.restoreAllMocks();
+  });
+
+  describe("metadata filters and canned responses", () => {
+    const shabbatText =
+      "בשבת הסטודיו סגור, אבדוק מול הצוות אם אפשר לפתוח עבורכם.";
+
+    const createCannedService = (options: Record<string, unknown> = {}) => {
+      const query = vi.fn().mockResolvedValue({
+        documents: [[shabbatText, "Wheel workshop details"]],
+        metadatas: [
+          [
+            { title: "שבת", key: "response_shabbat" },
+            { title: "wheel", topic: "workshops" },
+          ],
+        ],
+        distances: [[0.3, 0.4]],
+      });
+      const get = vi.fn(async ({ where }) => ({
+        ids: where.key === "response_shabbat" ? ["responses.json#0"] : [],
+        documents: where.key === "response_shabbat" ? [shabbatText] : [],
+        metadatas:
+          where.key === "response_shabbat"
+            ? [{ title: "שבת", source: "responses.json" }]
+            : [],
+      }));
+      const cannedService = createKnowledgeBaseService({
+        chromaClient: {
+          heartbeat: vi.fn().mockResolvedValue(Date.now()),
+          getOrCreateCollection: vi.fn().mockResolvedValue({ query, get }),
+        } as unknown as ChromaClient,
+        chromaCollection: "test-collection",
+        embeddingModel: "text-embedding-3-small",
+        openAIApiKey: "test-key",
+        openaiClient: mockOpenAI as OpenAI,
+        ...options,
+      });
+      return { cannedService, query, get };
+    };
+
+    it("matches intents in Hebrew and English", () => {
+      expect(matchCannedResponseKeys("אפשר להגיע בשבת?")).toEqual([
+        "response_shabbat",
+      ]);
+      expect(matchCannedResponseKeys("יש מקום להיום בערב?")).toEqual([
+        "response_same_day",
+      ]);
+      expect(matchCannedResponseKeys("Can we come tonight?")).toEqual([
+        "response_same_day",
+      ]);
+      expect(matchCannedResponseKeys("מה המחיר לזוג?")).toEqual([]);
+    });
+
+    it("injects the fixed text verbatim when the intent matches", async () => {
+      const { cannedService, get } = createCannedService();
+
+      const context = await cannedService.buildKnowledgeContext(
+        "test-id",
+        "אפשר לעשות סדנה בשבת?"
+      );
+
+      expect(get).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { key: "response_shabbat" } })
+      );
+      expect(context?.message.content).toContain(
+        `[response_shabbat]\n${shabbatText}`
+      );
+      expect(context?.entries).toEqual([
+        { title: "שבת", source: "responses.json" },
+        { title: "wheel", source: "unknown" },
+      ]);
+    });
+
+    it("applies default and per-call metadata filters to the query", async () => {
+      const { cannedService, query } = createCannedService({
+        defaultFilter: { language: "he" },
+      });
+
+      await cannedService.buildKnowledgeContext("test-id", "מה יש בסדנה?", {
+        filter: { topic: ["workshops", "classes"] },
+      });
+
+      expect(query).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            $and: [
+              { topic: { $in: ["workshops", "classes"] } },
+              { language: "he" },
+            ],
+          },
+        })
+      );
+    });
+
+    it("looks up canned responses by key", async () => {
+      const { cannedService } = createCannedService();
+
+      await expect(
+        cannedService.getCannedResponse("response_shabbat")
+      ).resolves.toEqual({
+        key: "response_shabbat",
+        text: shabbatText,
+        title: "שבת",
+        source: "responses.json",
+      });
+      await expect(
+        cannedService.getCannedResponse("response_unknown")
+      ).resolves.toBeNull();
+    });
+  });
 });
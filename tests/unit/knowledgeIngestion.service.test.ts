@@ -0,0 +1,317 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChromaClient } from "chromadb";
+
+import { chunkKnowledgeFile } from "../../src/services/ai/knowledgeChunker.js";
+import { createKnowledgeIngestionService } from "../../src/services/ai/knowledgeIngestion.js";
+
+type StoredRecord = {
+  document: string;
+  metadata: Record<string, unknown>;
+  embedding: number[];
+};
+
+const createCollectionStub = (initial: Record<string, StoredRecord> = {}) => {
+  const records = new Map(Object.entries(initial));
+
+  const collection = {
+    get: vi.fn(async ({ limit = 100, offset = 0 }) => {
+      const ids = [...records.keys()].slice(offset, offset + limit);
+      return {
+        ids,
+        metadatas: ids.map((id) => records.get(id)?.metadata ?? null),
+      };
+    }),
+    upsert: vi.fn(async ({ ids, documents, metadatas, embeddings }) => {
+      ids.forEach((id: string, index: number) => {
+        records.set(id, {
+          document: documents[index],
+          metadata: metadatas[index],
+          embedding: embeddings[index],
+        });
+      });
+    }),
+    delete: vi.fn(async ({ ids }) => {
+      ids.forEach((id: string) => records.delete(id));
+    }),
+  };
+
+  const chromaClient = {
+    getOrCreateCollection: vi.fn(async () => collection),
+  } as unknown as ChromaClient;
+
+  return { records, collection, chromaClient };
+};
+
+const recordFor = (records: Map<string, StoredRecord>, sourceFile: string) =>
+  [...records.values()].find(
+    (record) => record.metadata.source_file === sourceFile
+  );
+
+const createService = (chromaClient: ChromaClient) => {
+  const embedTexts = vi.fn(async (texts: string[]) =>
+    texts.map((text) => [text.length, 1])
+  );
+  const service = createKnowledgeIngestionService({
+    chromaClient,
+    chromaCollection: "kb",
+    embeddingModel: "text-embedding-3-small",
+    openAIApiKey: "test-key",
+    embedTexts,
+  });
+  return { service, embedTexts };
+};
+
+describe("chunkKnowledgeFile", () => {
+  it("splits Markdown by heading and size, reading the source from front matter", () => {
+    const content = [
+      "---",
+      "source: https://handsandfire.com/workshops",
+      "---",
+      "# סדנת אובניים",
+      "שעתיים וחצי של עבודה על האובניים.",
+      "",
+      "## מחירים",
+      "זוג: 520 ש״ח",
+      "",
+      "שלושה: 750 ש״ח",
+    ].join("\n");
+
+    const chunks = chunkKnowledgeFile("workshops/wheel.md", content, {
+      maxChunkCharacters: 15,
+    });
+
+    expect(chunks.map((chunk) => chunk.title)).toEqual([
+      "סדנת אובניים",
+      "סדנת אובניים",
+      "סדנת אובניים",
+      "מחירים",
+      "מחירים",
+    ]);
+    expect(chunks[3]).toEqual({
+      id: expect.stringMatching(/^workshops\/wheel\.md#מחירים:[0-9a-f]{12}$/),
+      title: "מחירים",
+      source: "https://handsandfire.com/workshops",
+      sourceFile: "workshops/wheel.md",
+      text: "מחירים\nזוג: 520 ש״ח",
+    });
+  });
+
+  it("reads entries from JSON and CSV files", () => {
+    const json = chunkKnowledgeFile(
+      "responses.json",
+      JSON.stringify({
+        entries: [
+          { key: "response_shabbat", content: "בשבת נבדוק מול הצוות" },
+          { key: "empty" },
+        ],
+      })
+    );
+    const csv = chunkKnowledgeFile(
+      "prices.csv",
+      'title,content,url\nפרטי,"מחיר לזוג, 520 ש""ח",https://handsandfire.com/prices\n'
+    );
+
+    expect(json).toEqual([
+      expect.objectContaining({
+        title: "response_shabbat",
+        source: "responses.json",
+      }),
+    ]);
+    expect(csv).toEqual([
+      expect.objectContaining({
+        title: "פרטי",
+        source: "https://handsandfire.com/prices",
+        text: 'פרטי\nמחיר לזוג, 520 ש"ח',
+      }),
+    ]);
+  });
+
+  it("keeps keyed entries whole and carries topic and language labels", () => {
+    const longText = "טקסט קבוע. ".repeat(20).trim();
+    const chunks = chunkKnowledgeFile(
+      "responses.json",
+      JSON.stringify([
+        {
+          key: "response_same_day",
+          topic: "logistics",
+          language: "he",
+          content: longText,
+        },
+      ]),
+      { maxChunkCharacters: 50 }
+    );
+
+    expect(chunks).toEqual([
+      {
+        id: expect.stringMatching(/^responses\.json#response_same_day:/),
+        title: "response_same_day",
+        source: "responses.json",
+        sourceFile: "responses.json",
+        text: longText,
+        key: "response_same_day",
+        topic: "logistics",
+        language: "he",
+      },
+    ]);
+  });
+
+  it("derives ids from the section and text, not the chunk position", () => {
+    const before = chunkKnowledgeFile(
+      "faq.md",
+      "# Hours\n10:00\n# Parking\nOn the street"
+    );
+    const after = chunkKnowledgeFile(
+      "faq.md",
+      "# Prices\n520 NIS\n# Hours\n10:00\n# Parking\nOn the street"
+    );
+    const repeated = chunkKnowledgeFile(
+      "faq.md",
+      "# Hours\n10:00\n# Hours\n10:00"
+    );
+
+    expect(after.slice(1).map((chunk) => chunk.id)).toEqual(
+      before.map((chunk) => chunk.id)
+    );
+    expect(repeated[1]?.id).toBe(`${repeated[0]?.id}:2`);
+  });
+
+  it("rejects malformed JSON", () => {
+    expect(() => chunkKnowledgeFile("broken.json", "{")).toThrow(
+      "Invalid JSON in broken.json"
+    );
+  });
+});
+
+describe("createKnowledgeIngestionService", () => {
+  it("stores key, topic and language metadata", async () => {
+    const { records, chromaClient } = createCollectionStub();
+    const { service } = createService(chromaClient);
+
+    await service.ingest([
+      {
+        path: "shabbat.md",
+        content:
+          "---\nkey: response_shabbat\ntopic: logistics\nlanguage: he\n---\nבשבת נבדוק מול הצוות",
+      },
+    ]);
+
+    expect(recordFor(records, "shabbat.md")).toMatchObject({
+      document: "בשבת נבדוק מול הצוות",
+      metadata: {
+        key: "response_shabbat",
+        topic: "logistics",
+        language: "he",
+      },
+    });
+  });
+
+  it("stores attachment URLs as media_url metadata", async () => {
+    const { records, chromaClient } = createCollectionStub();
+    const { service } = createService(chromaClient);
+
+    await service.ingest([
+      {
+        path: "location.md",
+        content:
+          "---\nsource: https://example.com/contact\nmedia_url: https://example.com/map.png\n---\n# Location\nהסטודיו ברחוב הרצל 1",
+      },
+    ]);
+
+    expect(recordFor(records, "location.md")).toMatchObject({
+      metadata: {
+        source: "https://example.com/contact",
+        media_url: "https://example.com/map.png",
+      },
+    });
+  });
+
+  it("upserts new chunks with title and source metadata", async () => {
+    const { records, chromaClient } = createCollectionStub();
+    const { service, embedTexts } = createService(chromaClient);
+
+    const summary = await service.ingest([
+      { path: "hours.md", content: "# שעות פתיחה\nא׳-ה׳ 10:00-20:00" },
+    ]);
+
+    expect(summary).toEqual({
+      files: 1,
+      chunks: 1,
+      upserted: 1,
+      unchanged: 0,
+      deleted: 0,
+    });
+    expect(embedTexts).toHaveBeenCalledTimes(1);
+    expect(recordFor(records, "hours.md")?.metadata).toMatchObject({
+      title: "שעות פתיחה",
+      source: "hours.md",
+      source_file: "hours.md",
+    });
+  });
+
+  it("skips unchanged chunks and deletes chunks of removed files", async () => {
+    const { records, collection, chromaClient } = createCollectionStub({
+      "manual-entry": {
+        document: "Added by hand",
+        metadata: { title: "manual" },
+        embedding: [1],
+      },
+    });
+    const { service, embedTexts } = createService(chromaClient);
+
+    await service.ingest([
+      { path: "hours.md", content: "# שעות\n10:00" },
+      { path: "old.md", content: "# ישן\nמחירון קודם" },
+    ]);
+    embedTexts.mockClear();
+
+    const summary = await service.ingest([
+      { path: "hours.md", content: "# שעות\n10:00" },
+    ]);
+
+    expect(summary).toMatchObject({ upserted: 0, unchanged: 1, deleted: 1 });
+    expect(embedTexts).not.toHaveBeenCalled();
+    expect(collection.delete).toHaveBeenCalledWith({
+      ids: [expect.stringMatching(/^old\.md#/)],
+    });
+    expect(
+      [...records.values()].map((record) => record.metadata.source_file)
+    ).toEqual([undefined, "hours.md"]);
+  });
+
+  it("only deletes stale chunks under the ingested root", async () => {
+    const { records, chromaClient } = createCollectionStub();
+    const { service, embedTexts } = createService(chromaClient);
+
+    await service.ingest([
+      { path: "faq/hours.md", content: "# שעות\n10:00" },
+      { path: "faq/old.md", content: "# ישן\nמחירון קודם" },
+      { path: "workshops/wheel.md", content: "# אובניים\nשעתיים וחצי" },
+    ]);
+    embedTexts.mockClear();
+
+    const summary = await service.ingest(
+      [{ path: "faq/hours.md", content: "# שעות\n10:00" }],
+      { root: "faq" }
+    );
+
+    expect(summary).toMatchObject({ upserted: 0, unchanged: 1, deleted: 1 });
+    expect(embedTexts).not.toHaveBeenCalled();
+    expect(
+      [...records.values()].map((record) => record.metadata.source_file).sort()
+    ).toEqual(["faq/hours.md", "workshops/wheel.md"]);
+  });
+
+  it("reports changes without writing on a dry run", async () => {
+    const { collection, chromaClient } = createCollectionStub();
+    const { service } = createService(chromaClient);
+
+    const summary = await service.ingest(
+      [{ path: "hours.md", content: "# שעות\n10:00" }],
+      { dryRun: true }
+    );
+
+    expect(summary.upserted).toBe(1);
+    expect(collection.upsert).not.toHaveBeenCalled();
+    expect(collection.delete).not.toHaveBeenCalled();
+  });
+});
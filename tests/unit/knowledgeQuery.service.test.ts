@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createFakeOpenAIClient } from "../../src/clients/openai.fake.js";
+import {
+  createHistoryWindowQueryBuilder,
+  createLlmQueryRewriter,
+} from "../../src/services/ai/knowledgeQuery.js";
+
+const history = [
+  { role: "system" as const, content: "System prompt" },
+  { role: "user" as const, content: "כמה עולה סדנת אובניים לזוג?" },
+  { role: "assistant" as const, content: "סדנת אובניים לזוג עולה 520 ש״ח" },
+  { role: "user" as const, content: "ולארבעה?" },
+];
+
+describe("createHistoryWindowQueryBuilder", () => {
+  it("adds a query built from the recent user turns", async () => {
+    const builder = createHistoryWindowQueryBuilder({ userTurns: 2 });
+
+    await expect(builder.buildQueries("ולארבעה?", history)).resolves.toEqual([
+      "ולארבעה?",
+      "כמה עולה סדנת אובניים לזוג?\nולארבעה?",
+    ]);
+  });
+
+  it("uses only the message when there is no earlier turn", async () => {
+    const builder = createHistoryWindowQueryBuilder();
+
+    await expect(builder.buildQueries("שלום", [])).resolves.toEqual(["שלום"]);
+  });
+});
+
+describe("createLlmQueryRewriter", () => {
+  it("returns the standalone queries produced by the model", async () => {
+    const onRequest = vi.fn();
+    const rewriter = createLlmQueryRewriter({
+      client: createFakeOpenAIClient({
+        steps: [
+          {
+            content: JSON.stringify({
+              queries: [
+                "מחיר סדנת אובניים לארבעה משתתפים",
+                "סדנת אובניים קבוצה",
+                "extra",
+              ],
+            }),
+          },
+        ],
+        onRequest,
+      }),
+      model: "gpt-4o-mini",
+    });
+
+    const queries = await rewriter.buildQueries("ולארבעה?", history);
+
+    expect(queries).toEqual([
+      "מחיר סדנת אובניים לארבעה משתתפים",
+      "סדנת אובניים קבוצה",
+    ]);
+    const request = onRequest.mock.calls[0]?.[0];
+    expect(request.response_format.type).toBe("json_schema");
+    expect(request.messages[1].content).toContain(
+      "assistant: סדנת אובניים לזוג עולה 520 ש״ח"
+    );
+    expect(request.messages[1].content).not.toContain("System prompt");
+  });
+
+  it("falls back to the history window when the output is unusable", async () => {
+    const rewriter = createLlmQueryRewriter({
+      client: createFakeOpenAIClient({ steps: [{ content: "not json" }] }),
+      model: "gpt-4o-mini",
+      fallback: createHistoryWindowQueryBuilder({ userTurns: 2 }),
+    });
+
+    await expect(rewriter.buildQueries("ולארבעה?", history)).resolves.toEqual([
+      "ולארבעה?",
+      "כמה עולה סדנת אובניים לזוג?\nולארבעה?",
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createFakeOpenAIClient } from "../../src/clients/openai.fake.js";
+import { createLeadExtractionService } from "../../src/services/leads/leadExtraction.js";
+
+const conversationId = "whatsapp:+972500000001";
+
+const history = [
+  { role: "system" as const, content: "System prompt" },
+  { role: "user" as const, content: "היי, אנחנו שתי חברות" },
+  { role: "assistant" as const, content: "איזו סדנה מעניינת אתכן?" },
+];
+
+const extraction = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    participants: null,
+    workshop_type: null,
+    gender_form: null,
+    requested_date: null,
+    day_type: null,
+    ...overrides,
+  });
+
+describe("createLeadExtractionService", () => {
+  it("requests structured output and stores the lead", async () => {
+    const onRequest = vi.fn();
+    const service = createLeadExtractionService({
+      client: createFakeOpenAIClient({
+        steps: [
+          {
+            content: extraction({ participants: 2, gender_form: "female" }),
+          },
+        ],
+        onRequest,
+      }),
+      model: "gpt-4o-mini",
+      getConversationHistory: async () => history,
+      now: () => new Date("2024-06-01T10:00:00.000Z"),
+    });
+
+    const lead = await service.extractLead(conversationId);
+
+    expect(lead).toEqual({
+      conversationId,
+      participants: 2,
+      workshopType: null,
+      genderForm: "female",
+      requestedDate: null,
+      dayType: null,
+      complete: false,
+      missingFields: ["workshopType", "requestedDate"],
+      updatedAt: "2024-06-01T10:00:00.000Z",
+    });
+    expect(service.getLead(conversationId)).toEqual(lead);
+
+    const request = onRequest.mock.calls[0]?.[0];
+    expect(request.response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: { name: "booking_lead", strict: true },
+    });
+    expect(request.messages[1].content).toContain("user: היי, אנחנו שתי חברות");
+    expect(request.messages[1].content).not.toContain("System prompt");
+  });
+
+  it("keeps known values and marks the lead complete once all are set", async () => {
+    const service = createLeadExtractionService({
+      client: createFakeOpenAIClient({
+        steps: [
+          { content: extraction({ participants: 2, workshop_type: "wheel" }) },
+          {
+            content: extraction({
+              requested_date: "14/06",
+              day_type: "friday",
+            }),
+          },
+        ],
+      }),
+      model: "gpt-4o-mini",
+      getConversationHistory: async () => history,
+    });
+
+    await service.extractLead(conversationId);
+    const lead = await service.extractLead(conversationId);
+
+    expect(lead).toMatchObject({
+      participants: 2,
+      workshopType: "wheel",
+      requestedDate: "14/06",
+      dayType: "friday",
+      complete: true,
+      missingFields: [],
+    });
+    expect(service.listLeads()).toHaveLength(1);
+  });
+
+  it("ignores output that does not match the schema", async () => {
+    const service = createLeadExtractionService({
+      client: createFakeOpenAIClient({
+        steps: [
+          { content: extraction({ participants: 3 }) },
+          { content: extraction({ workshop_type: "pottery-class" }) },
+          { content: "not json" },
+        ],
+      }),
+      model: "gpt-4o-mini",
+      getConversationHistory: async () => history,
+    });
+
+    await service.extractLead(conversationId);
+    await service.extractLead(conversationId);
+    const lead = await service.extractLead(conversationId);
+
+    expect(lead).toMatchObject({ participants: 3, workshopType: null });
+  });
+
+  it("skips the request when the conversation has no turns", async () => {
+    const onRequest = vi.fn();
+    const service = createLeadExtractionService({
+      client: createFakeOpenAIClient({ onRequest }),
+      model: "gpt-4o-mini",
+      getConversationHistory: async () => [],
+    });
+
+    await expect(service.extractLead(conversationId)).resolves.toBeNull();
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+});
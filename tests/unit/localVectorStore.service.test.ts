@@ -0,0 +1,117 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type OpenAI from "openai";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createKnowledgeBaseService } from "../../src/services/ai/knowledgeBase.js";
+import {
+  cosineDistance,
+  createLocalVectorStore,
+} from "../../src/services/ai/localVectorStore.js";
+
+const seedStore = async (filePath?: string) => {
+  const store = createLocalVectorStore({
+    collectionName: "kb",
+    ...(filePath && { filePath }),
+  });
+  await store.upsert({
+    ids: ["prices#0", "hours#0", "prices-en#0"],
+    documents: [
+      "סדנת אובניים עולה 250 ש״ח",
+      "הסטודיו פתוח בימים א׳-ה׳",
+      "The wheel workshop costs 250 NIS",
+    ],
+    metadatas: [
+      { title: "מחירים", source: "prices.md", language: "he" },
+      { title: "שעות", source: "hours.md", language: "he" },
+      { title: "Prices", source: "prices-en.md", language: "en" },
+    ],
+    embeddings: [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0.9, 0.1, 0],
+    ],
+  });
+  return store;
+};
+
+describe("createLocalVectorStore", () => {
+  const directories: string[] = [];
+
+  afterEach(async () => {
+    await Promise.all(
+      directories
+        .splice(0)
+        .map((directory) => rm(directory, { recursive: true, force: true }))
+    );
+  });
+
+  it("computes cosine distance and rejects mismatched dimensions", () => {
+    expect(cosineDistance([1, 0], [1, 0])).toBeCloseTo(0);
+    expect(cosineDistance([1, 0], [0, 1])).toBeCloseTo(1);
+    expect(cosineDistance([1, 0], [-1, 0])).toBeCloseTo(2);
+    expect(() => cosineDistance([1, 0], [1, 0, 0])).toThrow(/dimension/);
+  });
+
+  it("ranks records by cosine distance and applies metadata filters", async () => {
+    const store = await seedStore();
+
+    const all = await store.query({
+      queryEmbeddings: [[1, 0, 0]],
+      nResults: 2,
+    });
+    expect(all.ids).toEqual([["prices#0", "prices-en#0"]]);
+    expect(all.distances[0]?.[0]).toBeCloseTo(0);
+
+    const hebrew = await store.query({
+      queryEmbeddings: [[1, 0, 0]],
+      nResults: 5,
+      where: { language: { $in: ["he"] } },
+    });
+    expect(hebrew.ids).toEqual([["prices#0", "hours#0"]]);
+
+    const page = await store.get({ where: { source: "hours.md" } });
+    expect(page.documents).toEqual(["הסטודיו פתוח בימים א׳-ה׳"]);
+  });
+
+  it("persists records to disk and reloads them", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "vector-store-"));
+    directories.push(directory);
+    const filePath = path.join(directory, "store.json");
+
+    const store = await seedStore(filePath);
+    await store.delete({ ids: ["hours#0"] });
+
+    const persisted = JSON.parse(await readFile(filePath, "utf8"));
+    expect(persisted.records).toHaveLength(2);
+
+    const reloaded = createLocalVectorStore({ collectionName: "kb", filePath });
+    const page = await reloaded.get({ limit: 10 });
+    expect(page.ids).toEqual(["prices#0", "prices-en#0"]);
+  });
+
+  it("serves knowledge base retrieval without Chroma", async () => {
+    const vectorStore = await seedStore();
+    const service = createKnowledgeBaseService({
+      vectorStore,
+      embeddingModel: "text-embedding-3-small",
+      openAIApiKey: "test-key",
+      openaiClient: {} as OpenAI,
+      embedTexts: vi.fn(async () => [[1, 0, 0]]),
+      defaultFilter: { language: "he" },
+    });
+
+    const context = await service.buildKnowledgeContext(
+      "whatsapp:+972500000000",
+      "כמה עולה סדנה?"
+    );
+
+    expect(context?.entries[0]).toEqual({
+      title: "מחירים",
+      source: "prices.md",
+    });
+    expect(context?.message.content).toContain("250 ש״ח");
+    expect(context?.message.content).not.toContain("NIS");
+  });
+});
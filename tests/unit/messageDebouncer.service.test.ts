@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createMessageDebouncer } from "../../src/services/messaging/messageDebouncer.js";
+import type { InboundMessage } from "../../src/services/messaging/inboundMessages.js";
+
+const createMessage = (
+  messageSid: string,
+  from: string,
+  body: string
+): InboundMessage => ({
+  messageSid,
+  from,
+  body,
+  receivedAt: 0,
+});
+
+describe("createMessageDebouncer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("passes messages straight through when the window is disabled", () => {
+    const onFlush = vi.fn();
+    const debouncer = createMessageDebouncer({ windowMs: 0, onFlush });
+
+    debouncer.push(createMessage("SM1", "whatsapp:+1", "Hi"));
+
+    expect(onFlush).toHaveBeenCalledWith(
+      createMessage("SM1", "whatsapp:+1", "Hi")
+    );
+  });
+
+  it("merges messages from one conversation that arrive within the window", () => {
+    const onFlush = vi.fn();
+    const debouncer = createMessageDebouncer({ windowMs: 1000, onFlush });
+
+    debouncer.push(createMessage("SM1", "whatsapp:+1", "היי"));
+    vi.advanceTimersByTime(500);
+    debouncer.push(createMessage("SM2", "whatsapp:+1", "אנחנו 4"));
+    debouncer.push(createMessage("SM3", "whatsapp:+2", "Hello"));
+    vi.advanceTimersByTime(900);
+
+    expect(onFlush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+
+    expect(onFlush).toHaveBeenCalledTimes(2);
+    expect(onFlush).toHaveBeenNthCalledWith(1, {
+      messageSid: "SM1",
+      from: "whatsapp:+1",
+      body: "היי\nאנחנו 4",
+      receivedAt: 0,
+      mergedMessageSids: ["SM1", "SM2"],
+    });
+    expect(onFlush).toHaveBeenNthCalledWith(
+      2,
+      createMessage("SM3", "whatsapp:+2", "Hello")
+    );
+  });
+
+  it("flushes pending conversations on demand", () => {
+    const onFlush = vi.fn();
+    const debouncer = createMessageDebouncer({ windowMs: 1000, onFlush });
+
+    debouncer.push(createMessage("SM1", "whatsapp:+1", "Hi"));
+    expect(debouncer.pendingCount()).toBe(1);
+
+    debouncer.flushAll();
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(debouncer.pendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { createMessageDeduplicationStore } from "../../src/services/messaging/messageDeduplication.js";
+
+describe("createMessageDeduplicationStore", () => {
+  it("flags replayed message SIDs with the original result", () => {
+    const store = createMessageDeduplicationStore({
+      ttlMs: 1000,
+      now: () => 100,
+    });
+
+    expect(store.claim("SM1").duplicate).toBe(false);
+    store.complete("SM1", "SMREPLY");
+
+    const replay = store.claim("SM1");
+    expect(replay.duplicate).toBe(true);
+    expect(replay.record).toEqual({
+      messageSid: "SM1",
+      status: "completed",
+      receivedAt: 100,
+      replyMessageSid: "SMREPLY",
+    });
+  });
+
+  it("records failures", () => {
+    const store = createMessageDeduplicationStore({ ttlMs: 1000 });
+
+    store.claim("SM1");
+    store.fail("SM1", "Twilio down");
+
+    expect(store.claim("SM1").record).toMatchObject({
+      status: "failed",
+      error: "Twilio down",
+    });
+  });
+
+  it("forgets message SIDs after the TTL expires", () => {
+    let current = 0;
+    const store = createMessageDeduplicationStore({
+      ttlMs: 1000,
+      now: () => current,
+    });
+
+    store.claim("SM1");
+    current = 500;
+    store.claim("SM2");
+    current = 1200;
+
+    expect(store.claim("SM1").duplicate).toBe(false);
+    expect(store.claim("SM2").duplicate).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createMessageQueue } from "../../src/services/messaging/messageQueue.js";
+
+describe("createMessageQueue", () => {
+  it("processes jobs with bounded concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const processed: number[] = [];
+
+    const queue = createMessageQueue<number>({
+      name: "test",
+      concurrency: 2,
+      process: async (job) => {
+        running += 1;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        processed.push(job);
+        running -= 1;
+      },
+    });
+
+    [1, 2, 3, 4, 5].forEach((job) => queue.enqueue(job));
+
+    expect(queue.activeCount()).toBe(2);
+    expect(queue.size()).toBe(3);
+
+    await queue.onIdle();
+
+    expect(maxRunning).toBe(2);
+    expect(processed.sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(queue.size()).toBe(0);
+  });
+
+  it("keeps processing after a job fails", async () => {
+    const process = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValue(undefined);
+
+    const queue = createMessageQueue<string>({
+      name: "test",
+      concurrency: 1,
+      process,
+    });
+
+    queue.enqueue("first");
+    queue.enqueue("second");
+    await queue.onIdle();
+
+    expect(process).toHaveBeenCalledTimes(2);
+    expect(process).toHaveBeenLastCalledWith("second");
+  });
+
+  it("runs jobs sharing a key strictly in order", async () => {
+    const events: string[] = [];
+
+    const queue = createMessageQueue<{ key: string; id: string }>({
+      name: "test",
+      concurrency: 3,
+      keyOf: (job) => job.key,
+      process: async (job) => {
+        events.push(`start:${job.id}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        events.push(`end:${job.id}`);
+      },
+    });
+
+    queue.enqueue({ key: "a", id: "a1" });
+    queue.enqueue({ key: "a", id: "a2" });
+    queue.enqueue({ key: "b", id: "b1" });
+    queue.enqueue({ key: "a", id: "a3" });
+
+    expect(queue.activeCount()).toBe(2);
+
+    await queue.onIdle();
+
+    const conversationA = events.filter((event) => event.includes(":a"));
+    expect(conversationA).toEqual([
+      "start:a1",
+      "end:a1",
+      "start:a2",
+      "end:a2",
+      "start:a3",
+      "end:a3",
+    ]);
+    expect(events.indexOf("start:b1")).toBeLessThan(events.indexOf("end:a1"));
+  });
+});
@@ -6,6 +6,8 @@ import { createOpenAIService } from "../../src/services/ai/openai.js";
 import { createFakeOpenAIClient } from "../../src/clients/openai.fake.js";
 import { createFakeChromaClient } from "../../src/clients/chromadb.fake.js";
 import { logger } from "../../src/logger.js";
+import { createHumanFollowupTool } from "../../src/services/ai/assistantTools.js";
+import { createFollowupRequestStore } from "../../src/services/leads/followupRequests.js";
 
 describe("createOpenAIService", () => {
   const tokenizer: Pick<Tiktoken, "encode"> = {
@@ -52,7 +54,7 @@ describe("createOpenAIService", () => {
     });
 
     await service.generateReply("conversation-3", "Hi there");
-    service.resetConversation("conversation-3");
+    await service.resetConversation("conversation-3");
 
     const result = await service.generateReply(
       "conversation-3",
@@ -151,6 +153,46 @@ describe("createOpenAIService", () => {
     expect(result.response).not.toContain("](#");
   });
 
+  it("sends knowledge that fits next to the system prompt and drops it otherwise", async () => {
+    const sendsKnowledge = async (tokenLimit: number) => {
+      const requests: Array<{ messages: Array<{ content?: unknown }> }> = [];
+      const service = createOpenAIService({
+        client: createFakeOpenAIClient({
+          onRequest: (params) => {
+            requests.push({ messages: [...params.messages] });
+          },
+        }),
+        model: "gpt-4o-mini",
+        tokenLimit,
+        systemPrompt: "Respond clearly",
+        embeddingModel: "text-embedding-3-small",
+        tokenizer,
+        openAIApiKey: "test-key",
+        chromaClient: createFakeChromaClient({
+          documents: ["Hands and Fire workshop details"],
+          metadatas: [
+            {
+              title: "workshops",
+              source: "https://handsandfire.com/workshops",
+            },
+          ],
+          distances: [0.05],
+        }),
+        chromaCollection: "test-collection",
+      });
+
+      await service.generateReply("conversation-budget", "Workshop details?");
+      return requests[0]?.messages.some(
+        (message) =>
+          typeof message.content === "string" &&
+          message.content.startsWith("Knowledge base context:")
+      );
+    };
+
+    expect(await sendsKnowledge(250)).toBe(true);
+    expect(await sendsKnowledge(150)).toBe(false);
+  });
+
   it("logs chroma query failures as errors", async () => {
     const fakeLogger = {
       info: vi.fn(),
@@ -197,4 +239,162 @@ describe("createOpenAIService", () => {
       "chroma.query.failed"
     );
   });
+
+  it("always sends max_tokens, honours maxOutputTokens and logs truncation", async () => {
+    const fakeLogger = {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      child: vi.fn(),
+    } as const;
+
+    vi.spyOn(logger, "child").mockImplementation(
+      () => fakeLogger as unknown as never
+    );
+
+    const maxTokens: Array<number | null | undefined> = [];
+    const buildService = (maxOutputTokens?: number) =>
+      createOpenAIService({
+        client: createFakeOpenAIClient({
+          steps: [{ content: "Our workshops run on", finishReason: "length" }],
+          onRequest: (params) => {
+            maxTokens.push(params.max_tokens);
+          },
+        }),
+        model: "gpt-4o-mini",
+        tokenLimit: 200,
+        systemPrompt: "You are helpful",
+        embeddingModel: "text-embedding-3-small",
+        tokenizer,
+        openAIApiKey: "test-key",
+        chromaClient: createFakeChromaClient(),
+        chromaCollection: "test-collection",
+        ...(maxOutputTokens && { maxOutputTokens }),
+      });
+
+    await buildService().generateReply("conversation-default", "Hi");
+    const result = await buildService(5).generateReply(
+      "conversation-capped",
+      "When are the workshops?"
+    );
+
+    // The default reservation is TOKEN_BUDGET_OUTPUT_SHARE (0.2) of the limit.
+    expect(maxTokens).toEqual([40, 5]);
+    expect(result.tokens.budget.planned.output).toBe(5);
+    expect(fakeLogger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        conversationId: "conversation-capped",
+        outputTokens: 5,
+      }),
+      "openai.reply.truncated"
+    );
+  });
+
+  it("sends images with the current turn only", async () => {
+    const requests: Array<{ messages: Array<{ content?: unknown }> }> = [];
+    const service = createOpenAIService({
+      client: createFakeOpenAIClient({
+        onRequest: (params) => {
+          requests.push({ messages: [...params.messages] });
+        },
+      }),
+      model: "gpt-4o-mini",
+      tokenLimit: 1000,
+      systemPrompt: "You are helpful",
+      embeddingModel: "text-embedding-3-small",
+      tokenizer,
+      openAIApiKey: "test-key",
+      chromaClient: createFakeChromaClient(),
+      chromaCollection: "test-collection",
+    });
+
+    await service.generateReply("conversation-1", "Can you make this?", {
+      images: [{ url: "data:image/png;base64,AAAA" }],
+    });
+
+    expect(requests[0]?.messages.at(-1)?.content).toEqual([
+      { type: "text", text: "Can you make this?" },
+      {
+        type: "image_url",
+        image_url: { url: "data:image/png;base64,AAAA", detail: "low" },
+      },
+    ]);
+    expect(
+      (await service.getConversationHistory("conversation-1")).find(
+        (message) => message.role === "user"
+      )
+    ).toEqual({ role: "user", content: "Can you make this?" });
+  });
+
+  it("runs requested tools and returns the final reply", async () => {
+    const requests: Array<{ messages: Array<{ role?: string }> }> = [];
+    const followupRequests = createFollowupRequestStore();
+    const notify = vi.fn().mockResolvedValue(true);
+
+    const service = createOpenAIService({
+      client: createFakeOpenAIClient({
+        steps: [
+          {
+            toolCalls: [
+              {
+                name: "request_human_followup",
+                arguments: {
+                  reason: "Shabbat booking",
+                  participants: 4,
+                  workshop_type: "wheel",
+                  requested_date: "14/06",
+                },
+              },
+            ],
+          },
+          { content: "הצוות שלנו יחזור אליך בהקדם" },
+        ],
+        onRequest: (params) => {
+          requests.push({ messages: [...params.messages] });
+        },
+      }),
+      model: "gpt-4o-mini",
+      tokenLimit: 500,
+      systemPrompt: "You are helpful",
+      embeddingModel: "text-embedding-3-small",
+      tokenizer,
+      openAIApiKey: "test-key",
+      chromaClient: createFakeChromaClient(),
+      chromaCollection: "test-collection",
+      tools: [
+        createHumanFollowupTool({
+          followupRequests,
+          staffNotifier: { notify },
+        }),
+      ],
+    });
+
+    const result = await service.generateReply(
+      "whatsapp:+972500000001",
+      "אפשר סדנה בשבת לארבעה?"
+    );
+
+    expect(result.response).toBe("הצוות שלנו יחזור אליך בהקדם");
+    expect(followupRequests.list()).toEqual([
+      expect.objectContaining({
+        conversationId: "whatsapp:+972500000001",
+        reason: "Shabbat booking",
+        participants: 4,
+        workshopType: "wheel",
+        requestedDate: "14/06",
+      }),
+    ]);
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(requests).toHaveLength(2);
+    expect(requests[1]?.messages.at(-1)?.role).toBe("tool");
+
+    const history = await service.getConversationHistory(
+      "whatsapp:+972500000001"
+    );
+    expect(history.map((message) => message.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+    ]);
+  });
 });
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  segmentReply,
+  WHATSAPP_MAX_BODY_LENGTH,
+} from "../../src/services/messaging/replySegmenter.js";
+
+describe("segmentReply", () => {
+  it("returns short replies unchanged", () => {
+    expect(segmentReply("שלום! איך אפשר לעזור?")).toEqual([
+      "שלום! איך אפשר לעזור?",
+    ]);
+  });
+
+  it("splits on paragraphs before sentences", () => {
+    const first = "First paragraph. It has two sentences.";
+    const second = "Second paragraph.";
+
+    expect(segmentReply(`${first}\n\n${second}`, 45)).toEqual([first, second]);
+    expect(segmentReply(first, 30)).toEqual([
+      "First paragraph.",
+      "It has two sentences.",
+    ]);
+  });
+
+  it("keeps URLs intact and every segment within the limit", () => {
+    const url = "https://example.com/workshops/booking?type=wheel&date=12-05";
+    const text = Array.from(
+      { length: 60 },
+      (_, index) => `Sentence ${index} links to ${url} for details.`
+    ).join(" ");
+
+    const segments = segmentReply(text);
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach((segment) => {
+      expect(segment.length).toBeLessThanOrEqual(WHATSAPP_MAX_BODY_LENGTH);
+    });
+    expect(segments.join(" ")).toBe(text);
+    expect(segments.join(" ").split(url)).toHaveLength(61);
+  });
+
+  it("hard-splits a single word longer than the limit", () => {
+    expect(segmentReply("a".repeat(25), 10)).toEqual([
+      "a".repeat(10),
+      "a".repeat(10),
+      "a".repeat(5),
+    ]);
+  });
+
+  it("hard-splits by UTF-16 length without breaking surrogate pairs", () => {
+    const segments = segmentReply("🙂".repeat(7), 5);
+
+    expect(segments).toEqual(["🙂🙂", "🙂🙂", "🙂🙂", "🙂"]);
+    segments.forEach((segment) => {
+      expect(segment.length).toBeLessThanOrEqual(5);
+    });
+  });
+});
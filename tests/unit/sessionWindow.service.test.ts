@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import { createSessionWindowTracker } from "../../src/services/messaging/sessionWindow.js";
+
+describe("createSessionWindowTracker", () => {
+  it("opens a window on inbound messages and closes it after the limit", () => {
+    let current = Date.parse("2024-05-01T10:00:00.000Z");
+    const tracker = createSessionWindowTracker({
+      windowMs: 1000,
+      now: () => current,
+    });
+
+    expect(tracker.getWindow("whatsapp:+1")).toBeNull();
+    expect(tracker.isOpen("whatsapp:+1")).toBe(false);
+
+    tracker.recordInbound("whatsapp:+1");
+    expect(tracker.getWindow("whatsapp:+1")).toEqual({
+      openedAt: "2024-05-01T10:00:00.000Z",
+      expiresAt: "2024-05-01T10:00:01.000Z",
+      open: true,
+    });
+
+    current += 1000;
+    expect(tracker.isOpen("whatsapp:+1")).toBe(false);
+  });
+
+  it("ignores out-of-order inbound timestamps", () => {
+    const tracker = createSessionWindowTracker({ now: () => 5000 });
+
+    tracker.recordInbound("whatsapp:+1", 4000);
+    tracker.recordInbound("whatsapp:+1", 3000);
+
+    expect(tracker.getWindow("whatsapp:+1")?.openedAt).toBe(
+      new Date(4000).toISOString()
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createHumanFollowupTool } from "../../src/services/ai/assistantTools.js";
+import {
+  createFollowupRequestStore,
+  type HumanFollowupRequest,
+} from "../../src/services/leads/followupRequests.js";
+import {
+  createStaffNotifier,
+  formatFollowupNotification,
+} from "../../src/services/messaging/staffNotifier.js";
+
+const request: HumanFollowupRequest = {
+  id: "request-1",
+  conversationId: "whatsapp:+972500000001",
+  reason: "Same-day booking",
+  participants: 3,
+  workshopType: "wheel",
+  requestedDate: null,
+  createdAt: "2024-06-01T10:00:00.000Z",
+};
+
+describe("createStaffNotifier", () => {
+  it("sends the follow-up summary to the staff WhatsApp number", async () => {
+    const sendMessage = vi
+      .fn()
+      .mockResolvedValue({ success: true, messageSid: "SM1" });
+    const notifier = createStaffNotifier({
+      whatsAppNumber: "whatsapp:+972500000099",
+      twilioService: { sendMessage },
+    });
+
+    await expect(notifier.notify(request)).resolves.toBe(true);
+    expect(sendMessage).toHaveBeenCalledWith("whatsapp:+972500000099", {
+      body: formatFollowupNotification(request),
+    });
+    expect(formatFollowupNotification(request)).not.toContain("תאריך");
+  });
+
+  it("posts the request to the webhook and reports failures", async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200 })
+      .mockRejectedValueOnce(new Error("connection refused"));
+    const notifier = createStaffNotifier({
+      webhookUrl: "https://hooks.example.com/leads",
+      twilioService: { sendMessage: vi.fn() },
+      fetchImpl: fetchImpl as unknown as typeof fetch,
+    });
+
+    await expect(notifier.notify(request)).resolves.toBe(true);
+    expect(fetchImpl).toHaveBeenCalledWith(
+      "https://hooks.example.com/leads",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ type: "human_followup", request }),
+      })
+    );
+
+    await expect(notifier.notify(request)).resolves.toBe(false);
+  });
+
+  it("returns false when no channel is configured", async () => {
+    const notifier = createStaffNotifier({
+      twilioService: { sendMessage: vi.fn() },
+    });
+
+    await expect(notifier.notify(request)).resolves.toBe(false);
+  });
+});
+
+describe("createHumanFollowupTool", () => {
+  it("rejects arguments without a reason", async () => {
+    const followupRequests = createFollowupRequestStore();
+    const notify = vi.fn();
+    const tool = createHumanFollowupTool({
+      followupRequests,
+      staffNotifier: { notify },
+    });
+
+    const output = JSON.parse(
+      await tool.execute("whatsapp:+972500000001", JSON.stringify({}))
+    );
+
+    expect(output.status).toBe("error");
+    expect(followupRequests.list()).toHaveLength(0);
+    expect(notify).not.toHaveBeenCalled();
+  });
+});
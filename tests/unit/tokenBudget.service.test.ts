@@ -0,0 +1,199 @@
+import type OpenAI from "openai";
+import { describe, expect, it } from "vitest";
+
+import { renderKnowledgeContext } from "../../src/services/ai/knowledgeBase.js";
+import {
+  buildBudgetedRequest,
+  planOutputTokens,
+  planTokenBudget,
+} from "../../src/services/ai/tokenBudget.js";
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+const countMessageTokens = (message: ChatMessage) =>
+  typeof message.content === "string" ? message.content.length : 0;
+
+const knowledge = renderKnowledgeContext([
+  {
+    kind: "canned",
+    entry: { title: "Same day", source: "fixed.md" },
+    text: "[response_same_day]\nCall us",
+  },
+  {
+    kind: "retrieved",
+    entry: { title: "Prices", source: "prices.md" },
+    text: "- (Prices) 250 NIS",
+  },
+  {
+    kind: "retrieved",
+    entry: { title: "Hours", source: "hours.md" },
+    text: "- (Hours) Sunday to Thursday",
+  },
+]);
+
+describe("planTokenBudget", () => {
+  const options = {
+    systemShare: 0.4,
+    knowledgeShare: 0.25,
+    historyShare: 0.25,
+    outputShare: 0.1,
+    minHistoryTokens: 100,
+  };
+
+  it("reserves output tokens and splits what the system prompt leaves", () => {
+    expect(planOutputTokens(1000, options)).toBe(100);
+    expect(planOutputTokens(5, options)).toBe(1);
+    expect(
+      planTokenBudget(
+        {
+          limit: 1000,
+          systemTokens: 397,
+          historyTokens: 800,
+          outputTokens: 100,
+          replyPrimingTokens: 3,
+        },
+        options
+      )
+    ).toEqual({ system: 400, knowledge: 250, history: 250, output: 100 });
+    expect(
+      planTokenBudget(
+        {
+          limit: 1000,
+          systemTokens: 100,
+          historyTokens: 1000,
+          outputTokens: 300,
+          replyPrimingTokens: 0,
+        },
+        options
+      )
+    ).toEqual({ system: 400, knowledge: 300, history: 300, output: 300 });
+  });
+
+  it("gives knowledge the room history does not need, minus the history floor", () => {
+    const plan = (historyTokens: number, knowledgeShare: number) =>
+      planTokenBudget(
+        {
+          limit: 1000,
+          systemTokens: 400,
+          historyTokens,
+          outputTokens: 100,
+          replyPrimingTokens: 0,
+        },
+        { ...options, knowledgeShare, historyShare: 0.5 - knowledgeShare }
+      );
+
+    expect(plan(50, 0.25)).toEqual({
+      system: 400,
+      knowledge: 450,
+      history: 50,
+      output: 100,
+    });
+    expect(plan(500, 0.45)).toEqual({
+      system: 400,
+      knowledge: 400,
+      history: 100,
+      output: 100,
+    });
+  });
+
+  it("leaves nothing to split when the system prompt fills the limit", () => {
+    expect(
+      planTokenBudget(
+        {
+          limit: 1000,
+          systemTokens: 1099,
+          historyTokens: 50,
+          outputTokens: 100,
+          replyPrimingTokens: 3,
+        },
+        options
+      )
+    ).toEqual({ system: 400, knowledge: 0, history: 0, output: 100 });
+  });
+});
+
+describe("buildBudgetedRequest", () => {
+  const historyOnly = {
+    systemShare: 0,
+    knowledgeShare: 0,
+    historyShare: 1,
+    outputShare: 0,
+  };
+  const history: ChatMessage[] = [
+    { role: "system", content: "S".repeat(20) },
+    { role: "user", content: "U".repeat(30) },
+    { role: "assistant", content: "A".repeat(30) },
+    { role: "user", content: "latest" },
+  ];
+
+  it("drops retrieved snippets from the lowest rank before canned responses", () => {
+    const full = countMessageTokens(knowledge!.message);
+    const request = buildBudgetedRequest({
+      history,
+      knowledgeContext: knowledge,
+      limit: 20 + full - 1 + 66,
+      outputTokens: 0,
+      options: { ...historyOnly, minHistoryTokens: 66 },
+      countMessageTokens,
+      replyPrimingTokens: 0,
+    });
+
+    expect(request.droppedSnippets).toBe(1);
+    expect(
+      request.knowledgeContext?.entries.map((entry) => entry.title)
+    ).toEqual(["Same day", "Prices"]);
+    expect(request.messages.at(-2)).toBe(request.knowledgeContext?.message);
+    expect(request.messages.at(-1)).toEqual({
+      role: "user",
+      content: "latest",
+    });
+  });
+
+  it("keeps canned responses even when they alone exceed the knowledge budget", () => {
+    const request = buildBudgetedRequest({
+      history,
+      knowledgeContext: knowledge,
+      limit: 86,
+      outputTokens: 0,
+      options: { ...historyOnly, minHistoryTokens: 66 },
+      countMessageTokens,
+      replyPrimingTokens: 0,
+    });
+
+    expect(request.droppedSnippets).toBe(2);
+    expect(request.knowledgeContext?.snippets).toEqual([
+      expect.objectContaining({
+        kind: "canned",
+        text: "[response_same_day]\nCall us",
+      }),
+    ]);
+    expect(request.messages.at(-2)).toBe(request.knowledgeContext?.message);
+  });
+
+  it("keeps the newest turns that fit and always the latest message", () => {
+    const request = buildBudgetedRequest({
+      history,
+      knowledgeContext: null,
+      limit: 60,
+      outputTokens: 0,
+      options: { ...historyOnly, minHistoryTokens: 0 },
+      countMessageTokens,
+      replyPrimingTokens: 0,
+    });
+
+    expect(request.droppedMessages).toBe(1);
+    expect(request.messages).toEqual([history[0], history[2], history[3]]);
+    expect(request.actual).toEqual({ system: 20, knowledge: 0, history: 36 });
+
+    const starved = buildBudgetedRequest({
+      history,
+      knowledgeContext: null,
+      limit: 10,
+      outputTokens: 0,
+      options: { ...historyOnly, minHistoryTokens: 0 },
+      countMessageTokens,
+      replyPrimingTokens: 0,
+    });
+    expect(starved.messages).toEqual([history[0], history[3]]);
+  });
+});
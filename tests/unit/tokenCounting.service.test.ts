@@ -0,0 +1,86 @@
+import { get_encoding } from "tiktoken";
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  REPLY_PRIMING_TOKENS,
+  createChatTokenCounter,
+  fallbackEncodingForModel,
+  resolveTokenizer,
+} from "../../src/services/ai/tokenCounting.js";
+
+const characterTokenizer = () => ({
+  encode: vi.fn((text: string) => new Uint32Array(text.length)),
+});
+
+describe("createChatTokenCounter", () => {
+  it("adds role, name and reply-priming overhead", () => {
+    const counter = createChatTokenCounter(characterTokenizer());
+
+    expect(counter.countMessage({ role: "user", content: "Hello" })).toBe(
+      3 + 4 + 5
+    );
+    expect(
+      counter.countMessage({ role: "system", name: "summary", content: "Hi" })
+    ).toBe(3 + 6 + 2 + 1 + 7);
+    expect(counter.countMessages([])).toBe(0);
+    expect(counter.countMessages([{ role: "user", content: "Hello" }])).toBe(
+      12 + REPLY_PRIMING_TOKENS
+    );
+  });
+
+  it("counts tool-call payloads and tool results", () => {
+    const counter = createChatTokenCounter(characterTokenizer());
+
+    const toolCall = counter.countMessage({
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "lookup", arguments: '{"a":1}' },
+        },
+      ],
+    });
+    expect(toolCall).toBe(3 + 9 + 3 + 6 + 6 + 7);
+
+    const toolResult = counter.countMessage({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "ok",
+    });
+    expect(toolResult).toBe(3 + 4 + 2 + 6);
+  });
+
+  it("encodes each message once", () => {
+    const tokenizer = characterTokenizer();
+    const counter = createChatTokenCounter(tokenizer);
+    const messages = [
+      { role: "user" as const, content: "Hello" },
+      { role: "assistant" as const, content: "World" },
+    ];
+
+    counter.countMessages(messages);
+    counter.countMessages(messages);
+    counter.countMessage(messages[0]);
+
+    expect(tokenizer.encode).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("resolveTokenizer", () => {
+  it("falls back to a fixed encoding for models tiktoken does not know", () => {
+    const text = "כמה עולה סדנת אובניים לשני אנשים?";
+    const tokenizer = resolveTokenizer("acme-chat-2");
+    const encoding = get_encoding("cl100k_base");
+
+    expect(tokenizer.encode(text)).toEqual(encoding.encode(text));
+    encoding.free();
+  });
+
+  it("picks o200k_base for newer model families", () => {
+    expect(fallbackEncodingForModel("gpt-4o-2099-01-01")).toBe("o200k_base");
+    expect(fallbackEncodingForModel("o3-mini-preview")).toBe("o200k_base");
+    expect(fallbackEncodingForModel("llama-3")).toBe("cl100k_base");
+  });
+});
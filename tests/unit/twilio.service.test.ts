@@ -2,6 +2,8 @@ import { describe, expect, it, vi } from "vitest";
 
 import { createTwilioService } from "../../src/services/messaging/twilio.js";
 import { createFakeTwilioClient } from "../../src/clients/twilio.fake.js";
+import { createDeliveryStatusStore } from "../../src/services/messaging/deliveryStatus.js";
+import { createSessionWindowTracker } from "../../src/services/messaging/sessionWindow.js";
 
 describe("createTwilioService", () => {
   it("sends WhatsApp message using fake client", async () => {
@@ -50,6 +52,202 @@ describe("createTwilioService", () => {
     expect(result).toEqual({
       success: true,
       messageSid: "SM123",
+      messageSids: ["SM123"],
+      segmentCount: 1,
     });
   });
+
+  it("requests status callbacks and tracks sent messages", async () => {
+    const create = vi.fn(async () => ({ sid: "SM789", status: "queued" }));
+    const fakeClient = {
+      messages: { create },
+    } as unknown as ReturnType<typeof createFakeTwilioClient>;
+    const deliveryStatusStore = createDeliveryStatusStore();
+
+    const service = createTwilioService({
+      client: fakeClient,
+      fromNumber: "whatsapp:+10000000000",
+      statusCallbackUrl: "https://bot.example.com/twilio/status",
+      deliveryStatusStore,
+    });
+
+    await service.sendWhatsAppMessage("whatsapp:+12222222222", "Hello");
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCallback: "https://bot.example.com/twilio/status",
+      })
+    );
+    expect(deliveryStatusStore.get("SM789")).toMatchObject({
+      conversationId: "whatsapp:+12222222222",
+      status: "queued",
+    });
+  });
+
+  it("sends each media URL as its own message after the text", async () => {
+    const client = createFakeTwilioClient();
+    const service = createTwilioService({
+      client,
+      fromNumber: "whatsapp:+10000000000",
+    });
+
+    const result = await service.sendWhatsAppMessage(
+      "whatsapp:+12222222222",
+      "Our studio:",
+      {
+        mediaUrls: [
+          "https://example.com/map.png",
+          "https://example.com/map.png",
+          "https://example.com/gallery.jpg",
+        ],
+      }
+    );
+
+    expect(client.sentMessages).toEqual([
+      expect.objectContaining({ body: "Our studio:" }),
+      expect.objectContaining({ mediaUrl: ["https://example.com/map.png"] }),
+      expect.objectContaining({
+        mediaUrl: ["https://example.com/gallery.jpg"],
+      }),
+    ]);
+    expect(client.sentMessages[1]?.body).toBeUndefined();
+    expect(result).toMatchObject({ success: true, segmentCount: 3 });
+    expect(result.messageSids).toHaveLength(3);
+  });
+
+  it("sends long replies as ordered segments", async () => {
+    const bodies: string[] = [];
+    const fakeClient = {
+      messages: {
+        create: vi.fn(async (params: Record<string, string>) => {
+          bodies.push(params.body ?? "");
+          return { sid: `SM${bodies.length}` };
+        }),
+      },
+    } as unknown as ReturnType<typeof createFakeTwilioClient>;
+
+    const service = createTwilioService({
+      client: fakeClient,
+      fromNumber: "whatsapp:+10000000000",
+      maxSegmentLength: 20,
+    });
+
+    const result = await service.sendWhatsAppMessage(
+      "whatsapp:+12222222222",
+      "First part here.\n\nSecond part here."
+    );
+
+    expect(bodies).toEqual(["First part here.", "Second part here."]);
+    expect(result).toEqual({
+      success: true,
+      messageSid: "SM1",
+      messageSids: ["SM1", "SM2"],
+      segmentCount: 2,
+    });
+  });
+
+  it("reports partial delivery when a later segment fails", async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce({ sid: "SM1" })
+      .mockRejectedValueOnce(new Error("Twilio down"));
+    const fakeClient = {
+      messages: { create },
+    } as unknown as ReturnType<typeof createFakeTwilioClient>;
+
+    const service = createTwilioService({
+      client: fakeClient,
+      fromNumber: "whatsapp:+10000000000",
+      maxSegmentLength: 20,
+    });
+
+    const result = await service.sendWhatsAppMessage(
+      "whatsapp:+12222222222",
+      "First part here.\n\nSecond part here.\n\nThird part here."
+    );
+
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({
+      success: false,
+      messageSid: "SM1",
+      messageSids: ["SM1"],
+      segmentCount: 3,
+      failedSegment: 1,
+      error: "Twilio down",
+    });
+  });
+
+  it("sends template messages with content variables", async () => {
+    const create = vi.fn(async () => ({ sid: "SMTPL" }));
+    const fakeClient = {
+      messages: { create },
+    } as unknown as ReturnType<typeof createFakeTwilioClient>;
+
+    const service = createTwilioService({
+      client: fakeClient,
+      messagingServiceSid: "MG123",
+    });
+
+    const result = await service.sendTemplateMessage(
+      "whatsapp:+12222222222",
+      "HX123",
+      { "1": "Friday 18:00" }
+    );
+
+    expect(create).toHaveBeenCalledWith({
+      to: "whatsapp:+12222222222",
+      contentSid: "HX123",
+      contentVariables: JSON.stringify({ "1": "Friday 18:00" }),
+      messagingServiceSid: "MG123",
+    });
+    expect(result).toEqual({
+      success: true,
+      messageSid: "SMTPL",
+      messageSids: ["SMTPL"],
+    });
+  });
+
+  it("picks free-form or template depending on the session window", async () => {
+    const create = vi.fn(async () => ({ sid: "SM1" }));
+    const fakeClient = {
+      messages: { create },
+    } as unknown as ReturnType<typeof createFakeTwilioClient>;
+    const sessionWindow = createSessionWindowTracker();
+
+    const service = createTwilioService({
+      client: fakeClient,
+      fromNumber: "whatsapp:+10000000000",
+      sessionWindow,
+      followupContentSid: "HXFOLLOWUP",
+    });
+
+    await service.sendMessage("whatsapp:+12222222222", {
+      body: "A slot opened on Friday",
+    });
+    expect(create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        contentSid: "HXFOLLOWUP",
+        contentVariables: JSON.stringify({ "1": "A slot opened on Friday" }),
+      })
+    );
+
+    await service.sendMessage("whatsapp:+12222222222", {
+      body: "A slot opened on Friday",
+      template: { contentSid: "HXSLOT", variables: { "1": "Friday" } },
+    });
+    expect(create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ contentSid: "HXSLOT" })
+    );
+
+    sessionWindow.recordInbound("whatsapp:+12222222222");
+    await service.sendMessage("whatsapp:+12222222222", {
+      body: "See you on Friday",
+    });
+    expect(create).toHaveBeenLastCalledWith(
+      expect.not.objectContaining({ contentSid: expect.anything() })
+    );
+    expect(create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ body: "See you on Friday" })
+    );
+  });
 });
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { createTwilioMediaClient } from "../../src/clients/twilioMedia.js";
+
+describe("createTwilioMediaClient", () => {
+  it("downloads media with the account credentials", async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response(Buffer.from("image-bytes"), {
+          headers: { "content-type": "image/jpeg" },
+        })
+    );
+    const client = createTwilioMediaClient({
+      accountSid: "AC123",
+      authToken: "secret",
+      maxBytes: 1024,
+      fetch,
+    });
+
+    const media = await client.download("https://api.twilio.com/media/ME1");
+
+    expect(fetch).toHaveBeenCalledWith(
+      "https://api.twilio.com/media/ME1",
+      expect.objectContaining({
+        headers: {
+          Authorization: `Basic ${Buffer.from("AC123:secret").toString("base64")}`,
+        },
+      })
+    );
+    expect(media).toEqual({
+      contentType: "image/jpeg",
+      data: Buffer.from("image-bytes"),
+    });
+  });
+
+  it("rejects media over the size limit and failed responses", async () => {
+    const client = createTwilioMediaClient({
+      accountSid: "AC123",
+      authToken: "secret",
+      maxBytes: 4,
+      fetch: vi
+        .fn()
+        .mockResolvedValueOnce(new Response("too large"))
+        .mockResolvedValueOnce(new Response("missing", { status: 404 })),
+    });
+
+    await expect(client.download("https://media/1")).rejects.toThrow(
+      "Media is larger than 4 bytes"
+    );
+    await expect(client.download("https://media/2")).rejects.toThrow(
+      "Media download failed with status 404"
+    );
+  });
+});
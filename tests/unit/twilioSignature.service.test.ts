@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import twilio from "twilio";
+
+import {
+  createTwilioSignatureService,
+  resolvePublicUrl,
+} from "../../src/services/messaging/twilioSignature.js";
+
+describe("createTwilioSignatureService", () => {
+  const authToken = "test_auth_token";
+  const url = "https://bot.example.com/whatsapp";
+  const params = { From: "whatsapp:+15551234567", Body: "Hello" };
+
+  it("accepts requests signed with the auth token", () => {
+    const service = createTwilioSignatureService({ authToken });
+    const signature = twilio.getExpectedTwilioSignature(authToken, url, params);
+
+    expect(service.isValidRequest({ signature, url, params })).toBe(true);
+  });
+
+  it("rejects forged or missing signatures", () => {
+    const service = createTwilioSignatureService({ authToken });
+    const forged = twilio.getExpectedTwilioSignature("other", url, params);
+
+    expect(service.isValidRequest({ signature: forged, url, params })).toBe(
+      false
+    );
+    expect(service.isValidRequest({ signature: undefined, url, params })).toBe(
+      false
+    );
+  });
+});
+
+describe("resolvePublicUrl", () => {
+  it("prefers forwarded proxy headers", () => {
+    expect(
+      resolvePublicUrl({
+        headers: {
+          host: "internal:8080",
+          "x-forwarded-proto": "https, http",
+          "x-forwarded-host": "bot.example.com",
+        },
+        protocol: "http",
+        url: "/whatsapp",
+      })
+    ).toBe("https://bot.example.com/whatsapp");
+  });
+
+  it("falls back to the host header and request protocol", () => {
+    expect(
+      resolvePublicUrl({
+        headers: { host: "localhost:3000" },
+        protocol: "http",
+        url: "/whatsapp?source=test",
+      })
+    ).toBe("http://localhost:3000/whatsapp?source=test");
+  });
+});